@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createSessionToken,
+  getAuthConfig,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  sessionCookieOptions,
+  verifyValue,
+} from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import { completeOidcLogin, getOidcConfig, OIDC_STATE_COOKIE, type OidcLoginState } from '@/lib/oidc'
+
+export const runtime = 'nodejs'
+
+/**
+ * OIDC redirect target: check the state, exchange the code and start a session
+ */
+export async function GET(request: NextRequest) {
+  const config = getAuthConfig()
+  const failed = (reason: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${reason}`, request.url))
+    response.cookies.delete(OIDC_STATE_COOKIE)
+    return response
+  }
+  if (config?.mode !== 'oidc') return failed('config')
+
+  const { searchParams } = request.nextUrl
+  const code = searchParams.get('code')
+  const loginState = await verifyValue<OidcLoginState>(config.secret, request.cookies.get(OIDC_STATE_COOKIE)?.value)
+  if (
+    !code ||
+    !loginState ||
+    loginState.exp < Date.now() / 1000 ||
+    loginState.state !== searchParams.get('state')
+  ) {
+    return failed('state')
+  }
+
+  try {
+    const oidc = getOidcConfig()
+    const redirectUri = oidc.redirectUri ?? new URL('/api/auth/callback', request.url).toString()
+    const user = await completeOidcLogin(oidc, redirectUri, code, loginState)
+    logger.info('Signed in', { user: user.email ?? user.id })
+
+    const response = NextResponse.redirect(new URL(loginState.next, request.url))
+    response.cookies.delete(OIDC_STATE_COOKIE)
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(config.secret, user), {
+      ...sessionCookieOptions,
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    })
+    return response
+  } catch (error) {
+    logger.error('OIDC callback failed', { error })
+    return failed('provider')
+  }
+}
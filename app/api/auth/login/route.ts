@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createSessionToken,
+  getAuthConfig,
+  safeRedirectPath,
+  secretsEqual,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  sessionCookieOptions,
+  signValue,
+} from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import { createOidcLogin, getOidcConfig, OIDC_STATE_COOKIE } from '@/lib/oidc'
+import { getClientIp, loginRateLimiter } from '@/lib/rate-limit'
+
+export const runtime = 'nodejs'
+
+const MAX_NAME_LENGTH = 60
+
+function loginPageUrl(request: NextRequest, next: string, error?: string): URL {
+  const url = new URL('/login', request.url)
+  url.searchParams.set('next', next)
+  if (error) url.searchParams.set('error', error)
+  return url
+}
+
+/**
+ * Start an OIDC login by redirecting to the provider
+ */
+export async function GET(request: NextRequest) {
+  const next = safeRedirectPath(request.nextUrl.searchParams.get('next'))
+  const config = getAuthConfig()
+  if (config?.mode !== 'oidc') {
+    return NextResponse.redirect(loginPageUrl(request, next))
+  }
+
+  try {
+    const oidc = getOidcConfig()
+    const redirectUri = oidc.redirectUri ?? new URL('/api/auth/callback', request.url).toString()
+    const { url, loginState } = await createOidcLogin(oidc, redirectUri, next)
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_STATE_COOKIE, await signValue(config.secret, loginState), {
+      ...sessionCookieOptions,
+      maxAge: loginState.exp - Math.floor(Date.now() / 1000),
+    })
+    return response
+  } catch (error) {
+    logger.error('OIDC login failed', { error })
+    return NextResponse.redirect(loginPageUrl(request, next, 'provider'))
+  }
+}
+
+/**
+ * Passcode login from the /login form
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData()
+  const next = safeRedirectPath(form.get('next')?.toString())
+  const config = getAuthConfig()
+  if (config?.mode !== 'passcode') {
+    return NextResponse.redirect(loginPageUrl(request, next), 303)
+  }
+
+  const ip = getClientIp(request)
+  const rateLimit = await loginRateLimiter.consume(ip)
+  if (!rateLimit.allowed) {
+    return NextResponse.redirect(loginPageUrl(request, next, 'rate_limited'), 303)
+  }
+
+  const name = form.get('name')?.toString().trim().slice(0, MAX_NAME_LENGTH) ?? ''
+  const passcode = form.get('passcode')?.toString() ?? ''
+  const expected = process.env.AUTH_PASSCODE
+  if (!expected) {
+    logger.error('Passcode login failed: AUTH_PASSCODE is not set')
+    return NextResponse.redirect(loginPageUrl(request, next, 'config'), 303)
+  }
+  if (!name || !(await secretsEqual(config.secret, passcode, expected))) {
+    logger.warn('Passcode login rejected', { ip })
+    return NextResponse.redirect(loginPageUrl(request, next, 'invalid'), 303)
+  }
+
+  const user = { id: `passcode:${name.toLowerCase()}`, name }
+  logger.info('Signed in', { user: user.id })
+
+  const response = NextResponse.redirect(new URL(next, request.url), 303)
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(config.secret, user), {
+    ...sessionCookieOptions,
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  })
+  return response
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+export async function POST(request: NextRequest) {
+  const response = NextResponse.redirect(new URL('/login', request.url), 303)
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
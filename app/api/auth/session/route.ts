@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+import { getAuthConfig, SESSION_COOKIE, verifySessionToken } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+/**
+ * Whether auth is enabled and who is signed in
+ */
+export async function GET(request: NextRequest) {
+  const config = getAuthConfig()
+  if (!config) return Response.json({ enabled: false })
+
+  const user = await verifySessionToken(config.secret, request.cookies.get(SESSION_COOKIE)?.value)
+  return Response.json({ enabled: true, mode: config.mode, user: user ?? null })
+}
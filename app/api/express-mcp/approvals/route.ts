@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server'
+import { logger } from '@/lib/logger'
+import { resolveToolDecision, type ToolDecision } from '@/lib/tool-approvals'
+
+export const runtime = 'nodejs'
+
+/**
+ * Approve, edit or deny a tool call that a chat request is waiting on
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { requestId, toolUseId, action, input, reason } = await request.json()
+
+    if (typeof requestId !== 'string' || typeof toolUseId !== 'string') {
+      return Response.json({ error: 'requestId and toolUseId are required' }, { status: 400 })
+    }
+
+    let decision: ToolDecision
+    if (action === 'approve') {
+      if (input !== undefined && (!input || typeof input !== 'object' || Array.isArray(input))) {
+        return Response.json({ error: 'input must be a JSON object' }, { status: 400 })
+      }
+      decision = { action: 'approve', input }
+    } else if (action === 'deny') {
+      decision = { action: 'deny', reason: typeof reason === 'string' && reason.trim() ? reason.trim() : undefined }
+    } else {
+      return Response.json({ error: 'action must be "approve" or "deny"' }, { status: 400 })
+    }
+
+    if (!resolveToolDecision(requestId, toolUseId, decision)) {
+      return Response.json({ error: 'No tool call is waiting for this decision' }, { status: 404 })
+    }
+    return Response.json({ ok: true })
+  } catch (error) {
+    logger.error('Tool approval failed', { error })
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { apiError } from '@/lib/api-errors'
+import { logger } from '@/lib/logger'
+import { INSPECTOR_METHODS, isInspectorMethod, runInspectorRequest } from '@/lib/mcp-inspector'
+import { validateMcpServers } from '@/lib/mcp-servers'
+import { checkMcpUrl } from '@/lib/url-policy'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+/**
+ * MCP inspector endpoint
+ * Runs one MCP request (e.g. tools/call) directly, without Claude
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { server, method, params } = await request.json()
+
+    const validation = validateMcpServers([server])
+    if (!validation.ok) {
+      return Response.json({ error: validation.error.replace('mcpServers[0]', 'server') }, { status: 400 })
+    }
+    if (!isInspectorMethod(method)) {
+      return Response.json({ error: `method must be one of: ${INSPECTOR_METHODS.join(', ')}` }, { status: 400 })
+    }
+    if (params !== undefined && (!params || typeof params !== 'object' || Array.isArray(params))) {
+      return Response.json({ error: 'params must be an object' }, { status: 400 })
+    }
+
+    const [{ url, authorization_token }] = validation.servers
+    const urlPolicy = await checkMcpUrl(url)
+    if (!urlPolicy.ok) {
+      return apiError('mcp_url_blocked', urlPolicy.error, 403)
+    }
+    return Response.json(await runInspectorRequest({ url, authorization_token }, method, params))
+  } catch (error) {
+    logger.error('MCP inspector request failed', { error })
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server'
+import { logger } from '@/lib/logger'
+import { describeOAuthError, finishMcpOAuth, type McpOAuthFlow, refreshMcpOAuth, startMcpOAuth } from '@/lib/mcp-oauth'
+import { validateMcpServers } from '@/lib/mcp-servers'
+
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+const FLOW_FIELDS = ['serverUrl', 'authorizationServerUrl', 'clientId', 'redirectUri', 'state', 'codeVerifier'] as const
+
+function isFlow(value: unknown): value is McpOAuthFlow {
+  if (!value || typeof value !== 'object') return false
+  const flow = value as Record<string, unknown>
+  return FLOW_FIELDS.every(field => typeof flow[field] === 'string')
+}
+
+/**
+ * MCP OAuth endpoint, driven by the browser:
+ * - `start`: discover and register, returning the authorization URL and flow state
+ * - `finish`: exchange the callback's code for tokens
+ * - `refresh`: exchange a refresh token for a new access token
+ * Tokens are returned to the browser and never stored or logged here.
+ */
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: 'Request body is not valid JSON' }, { status: 400 })
+  }
+
+  try {
+    const { action, serverUrl, flow, code, server } = body ?? {}
+
+    if (action === 'start') {
+      const validation = validateMcpServers([{ name: 'oauth', url: serverUrl }])
+      if (!validation.ok) {
+        return Response.json({ error: 'serverUrl must be an http(s) URL' }, { status: 400 })
+      }
+      const redirectUri = new URL('/oauth/callback', request.url).toString()
+      return Response.json(await startMcpOAuth(validation.servers[0].url, redirectUri))
+    }
+
+    if (action === 'finish') {
+      if (!isFlow(flow) || typeof code !== 'string' || !code) {
+        return Response.json({ error: 'flow and code are required' }, { status: 400 })
+      }
+      return Response.json(await finishMcpOAuth(flow, code))
+    }
+
+    if (action === 'refresh') {
+      const validation = validateMcpServers([server])
+      if (!validation.ok || !validation.servers[0].oauth) {
+        return Response.json({ error: 'server with an oauth session is required' }, { status: 400 })
+      }
+      return Response.json(await refreshMcpOAuth(validation.servers[0].oauth))
+    }
+
+    return Response.json({ error: 'action must be "start", "finish" or "refresh"' }, { status: 400 })
+  } catch (error) {
+    // OAuth errors can echo request parameters or response bodies, so only a
+    // cleaned-up message is logged and returned
+    const message = describeOAuthError(error)
+    logger.error('MCP OAuth failed', { error: message })
+    return Response.json({ error: message }, { status: 502 })
+  }
+}
@@ -1,140 +1,105 @@
 import { NextRequest } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
+import { apiError, REQUEST_ID_HEADER } from '@/lib/api-errors'
+import { API_KEY_HEADER, isValidApiKey } from '@/lib/api-key'
+import { describeUser, getRequestUser } from '@/lib/auth'
+import { MAX_CHAT_REQUEST_BYTES, validateChatRequest } from '@/lib/chat-request'
+import { runChatTurn } from '@/lib/chat-turn'
+import { logger } from '@/lib/logger'
+import { chatRateLimiter, getClientIp } from '@/lib/rate-limit'
+import { readBodyText } from '@/lib/request-body'
+import { encodeStreamEvent } from '@/lib/stream-events'
 
 export const runtime = 'nodejs'
-export const maxDuration = 60
-
-// Default Express MCP URL
-const DEFAULT_MCP_URL = 'https://penumbra--express-mcp-mcp-server.modal.run/mcp'
-
-interface Message {
-  role: 'user' | 'assistant'
-  content: string
-}
+// Approval mode keeps the stream open while the user decides on tool calls
+export const maxDuration = 300
+// A turn still running this close to the limit ends with an error the user sees
+const TURN_DEADLINE_MARGIN_MS = 15_000
 
 /**
  * API endpoint for MCP chat
  * Uses Claude with any MCP server
  */
 export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID()
+  const deadline = Date.now() + maxDuration * 1000 - TURN_DEADLINE_MARGIN_MS
+  const user = getRequestUser(request)
+  const userLabel = describeUser(user)
+  const log = logger.child({ requestId, user: userLabel })
+
   try {
-    const { messages, mcpUrl } = await request.json()
+    const rateLimit = await chatRateLimiter.consume(getClientIp(request))
+    if (!rateLimit.allowed) {
+      log.warn('Chat request rate limited')
+      return apiError('rate_limited', 'Too many requests.', 429, { retryAfter: rateLimit.retryAfter, requestId })
+    }
 
-    if (!messages || messages.length === 0) {
-      return Response.json(
-        { error: 'Messages are required' },
-        { status: 400 }
-      )
+    const rawBody = await readBodyText(request, MAX_CHAT_REQUEST_BYTES)
+    if (rawBody === undefined) {
+      return apiError('payload_too_large', 'Request body is too large', 413, { requestId })
     }
 
-    const finalMcpUrl = mcpUrl || DEFAULT_MCP_URL
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return apiError('invalid_json', 'Request body is not valid JSON', 400, { requestId })
+    }
 
-    const client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    })
+    const validation = await validateChatRequest(body)
+    if (!validation.ok) {
+      log.warn('Chat request rejected', { code: validation.code })
+      return apiError(validation.code, validation.error, validation.code === 'mcp_url_blocked' ? 403 : 400, { requestId })
+    }
+    const { messages, servers, settings } = validation.request
+
+    // A key entered by the user takes precedence over the server's own
+    const userApiKey = request.headers.get(API_KEY_HEADER)?.trim()
+    if (userApiKey && !isValidApiKey(userApiKey)) {
+      return apiError('invalid_api_key', 'The Anthropic API key is malformed', 400, { requestId })
+    }
+    const apiKey = userApiKey || process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      return apiError('missing_api_key', 'No Anthropic API key is configured. Add your own key in Settings.', 401, {
+        requestId,
+      })
+    }
 
-    // Convert messages to Anthropic format
-    const anthropicMessages = messages.map((msg: Message) => ({
-      role: msg.role,
-      content: msg.content,
-    }))
+    // Retries are handled by runChatTurn, so the UI can be told about them
+    const client = new Anthropic({ apiKey, maxRetries: 0 })
+
+    // Abort the Anthropic stream (and any MCP calls) when the client goes away
+    const abortController = new AbortController()
+    request.signal.addEventListener('abort', () => abortController.abort())
+
+    // Hosts only: URLs can carry credentials in their query string
+    log.info('Chat request started', {
+      model: settings.model,
+      keySource: userApiKey ? 'own' : 'server',
+      mcpHosts: servers.map(server => new URL(server.url).host),
+      approveToolCalls: settings.approveToolCalls,
+      thinking: settings.thinking,
+      messageCount: messages.length,
+    })
 
     // Create streaming response
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
       async start(controller) {
-        try {
-          // Build request with MCP support
-          const requestOptions: Anthropic.MessageCreateParamsNonStreaming & {
-            mcp_servers?: Array<{ type: string; url: string; name: string }>
-          } = {
-            model: 'claude-sonnet-4-20250514',
-            max_tokens: 4096,
-            system: `You are a helpful AI assistant with access to tools via MCP (Model Context Protocol). Use the available tools to help users accomplish their tasks. Be concise, helpful, and use tools when appropriate to provide accurate, real-time information.`,
-            messages: anthropicMessages,
-            mcp_servers: [{
-              type: 'url',
-              url: finalMcpUrl,
-              name: 'mcp-tools',
-            }]
-          }
-
-          const headers = { 'anthropic-beta': 'mcp-client-2025-04-04' }
-
-          console.log('📤 MCP Request to:', finalMcpUrl)
-
-          // Make streaming request
-          const response = await client.messages.stream(requestOptions, { headers })
-
-          let currentToolName = ''
-          let currentToolInput = ''
-          let currentToolId = ''
-
-          for await (const event of response) {
-            // Debug log all events
-            console.log('📨 Event:', event.type, JSON.stringify(event).slice(0, 200))
-            
-            if (event.type === 'content_block_start') {
-              const block = event.content_block as { type: string; name?: string; id?: string }
-              console.log('📦 Content block:', block.type, block.name)
-              
-              // Handle both regular tool_use and MCP tool calls
-              if ((block.type === 'tool_use' || block.type === 'mcp_tool_use') && block.name) {
-                currentToolName = block.name
-                currentToolId = block.id || ''
-                currentToolInput = ''
-                // Send tool start event
-                const data = `data: ${JSON.stringify({ 
-                  type: 'tool_start', 
-                  name: currentToolName,
-                  id: currentToolId
-                })}\n\n`
-                controller.enqueue(encoder.encode(data))
-              }
-            } else if (event.type === 'content_block_delta') {
-              const delta = event.delta as { type: string; text?: string; partial_json?: string }
-              if (delta.type === 'text_delta' && delta.text) {
-                const data = `data: ${JSON.stringify({ type: 'text', content: delta.text })}\n\n`
-                controller.enqueue(encoder.encode(data))
-              } else if (delta.type === 'input_json_delta' && delta.partial_json) {
-                currentToolInput += delta.partial_json
-              }
-            } else if (event.type === 'content_block_stop') {
-              if (currentToolName) {
-                // Send tool complete event with input
-                let parsedInput = {}
-                try {
-                  parsedInput = JSON.parse(currentToolInput)
-                } catch {
-                  parsedInput = currentToolInput ? { raw: currentToolInput } : {}
-                }
-                const data = `data: ${JSON.stringify({ 
-                  type: 'tool_complete', 
-                  name: currentToolName,
-                  id: currentToolId,
-                  input: parsedInput
-                })}\n\n`
-                controller.enqueue(encoder.encode(data))
-                currentToolName = ''
-                currentToolInput = ''
-                currentToolId = ''
-              }
-            } else if (event.type === 'message_stop') {
-              const data = `data: ${JSON.stringify({ type: 'done' })}\n\n`
-              controller.enqueue(encoder.encode(data))
-            }
-          }
-
-          controller.close()
-        } catch (error) {
-          console.error('Stream error:', error)
-          const errorData = `data: ${JSON.stringify({ 
-            type: 'error', 
-            error: error instanceof Error ? error.message : 'Unknown error' 
-          })}\n\n`
-          controller.enqueue(encoder.encode(errorData))
-          controller.close()
-        }
+        await runChatTurn({
+          anthropic: client,
+          request: validation.request,
+          requestId,
+          send: event => controller.enqueue(encoder.encode(encodeStreamEvent(event))),
+          signal: abortController.signal,
+          log,
+          user: user ? userLabel : undefined,
+          deadline,
+        })
+        if (!abortController.signal.aborted) controller.close()
+      },
+      cancel() {
+        abortController.abort()
       },
     })
 
@@ -143,14 +108,11 @@ export async function POST(request: NextRequest) {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
+        [REQUEST_ID_HEADER]: requestId,
       },
     })
   } catch (error) {
-    console.error('MCP error:', error)
-    return Response.json(
-      { error: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    )
+    log.error('Chat request failed', { error })
+    return apiError('internal_error', error instanceof Error ? error.message : 'Unknown error', 500, { requestId })
   }
 }
-
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server'
+import { apiError } from '@/lib/api-errors'
+import { logger } from '@/lib/logger'
+import { listMcpTools } from '@/lib/mcp-client'
+import { validateMcpServers } from '@/lib/mcp-servers'
+import { checkMcpUrl } from '@/lib/url-policy'
+
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+/**
+ * Tool discovery endpoint
+ * Connects to an MCP server and returns the tools it exposes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { server } = await request.json()
+
+    const validation = validateMcpServers([server])
+    if (!validation.ok) {
+      return Response.json({ error: validation.error.replace('mcpServers[0]', 'server') }, { status: 400 })
+    }
+
+    const [{ url, authorization_token }] = validation.servers
+    const urlPolicy = await checkMcpUrl(url)
+    if (!urlPolicy.ok) {
+      return apiError('mcp_url_blocked', urlPolicy.error, 403)
+    }
+    const tools = await listMcpTools({ url, authorization_token })
+
+    return Response.json({ tools })
+  } catch (error) {
+    logger.error('MCP tool discovery failed', { error })
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import { logger } from '@/lib/logger'
+import { getClientIp, shareRateLimiter } from '@/lib/rate-limit'
+import { readBodyText } from '@/lib/request-body'
+import { ShareStorageFullError, shareStore } from '@/lib/share-store'
+import { validateTranscript } from '@/lib/transcript'
+
+export const runtime = 'nodejs'
+
+// Shared transcripts include tool results, which can be large
+const MAX_TRANSCRIPT_BYTES = 5 * 1024 * 1024
+
+/**
+ * Store a transcript and return the id of its read-only share page
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await shareRateLimiter.consume(getClientIp(request))
+    if (!rateLimit.allowed) {
+      return Response.json(
+        { error: `Too many share links. Try again in ${rateLimit.retryAfter}s.` },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+      )
+    }
+
+    const body = await readBodyText(request, MAX_TRANSCRIPT_BYTES)
+    if (body === undefined) {
+      return Response.json({ error: 'Transcript is too large to share' }, { status: 413 })
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(body)
+    } catch {
+      return Response.json({ error: 'Transcript is not valid JSON' }, { status: 400 })
+    }
+
+    const validation = validateTranscript(parsed)
+    if (!validation.ok) {
+      return Response.json({ error: validation.error }, { status: 400 })
+    }
+
+    const id = await shareStore.put(validation.transcript)
+    return Response.json({ id, url: `/share/${id}` })
+  } catch (error) {
+    if (error instanceof ShareStorageFullError) {
+      logger.warn('Share rejected: storage is full')
+      return Response.json({ error: 'Sharing is unavailable: storage is full' }, { status: 507 })
+    }
+    logger.error('Share failed', { error })
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import type { Metadata } from 'next'
+import { runScenarios } from '@/lib/eval-runner'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = { title: 'Scenarios · Express MCP Playground' }
+
+/**
+ * Replays the scenarios in evals/scenarios and shows which pass
+ */
+export default async function EvalsPage() {
+  const results = await runScenarios()
+  const failed = results.filter(result => !result.passed).length
+
+  return (
+    <div className="min-h-screen bg-neutral-50 px-4 py-10">
+      <div className="max-w-4xl mx-auto">
+        <header className="mb-8 text-center">
+          <p className="text-xs font-black tracking-tighter text-black">EXPRESS</p>
+          <h1 className="mt-2 text-2xl font-bold text-black">Scenarios</h1>
+          <p className="mt-1 text-xs text-neutral-400">
+            {results.length - failed} passed · {failed} failed · replayed against the mock MCP server
+          </p>
+        </header>
+
+        {results.length === 0 ? (
+          <p className="text-center text-sm text-neutral-500">No scenarios found in evals/scenarios</p>
+        ) : (
+          <table className="w-full text-sm bg-white border border-neutral-200 rounded-lg overflow-hidden">
+            <thead>
+              <tr className="bg-neutral-100 text-left text-xs uppercase tracking-wider text-neutral-500">
+                <th className="px-4 py-2 font-medium">Scenario</th>
+                <th className="px-4 py-2 font-medium">Result</th>
+                <th className="px-4 py-2 font-medium text-right">Tool calls</th>
+                <th className="px-4 py-2 font-medium text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => {
+                const failures = [
+                  ...result.failures,
+                  ...result.turns.flatMap((turn, index) => turn.failures.map(failure => `Turn ${index + 1}: ${failure}`)),
+                ]
+                return (
+                  <tr key={result.id} className="border-t border-neutral-200 align-top">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-black">{result.name}</p>
+                      <p className="text-xs text-neutral-400 font-mono">{result.id}</p>
+                      {result.description && <p className="mt-1 text-xs text-neutral-500">{result.description}</p>}
+                      {failures.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs text-red-700">
+                          {failures.map((failure, index) => <li key={index}>{failure}</li>)}
+                        </ul>
+                      )}
+                      {result.turns.length > 0 && (
+                        <details className="mt-2 text-xs">
+                          <summary className="cursor-pointer text-neutral-500 hover:text-black">Turns</summary>
+                          <ol className="mt-2 space-y-3">
+                            {result.turns.map((turn, index) => (
+                              <li key={index} className="space-y-1">
+                                <p className="text-black"><span className="text-neutral-400">User:</span> {turn.user}</p>
+                                {turn.toolCalls.map((call, callIndex) => (
+                                  <p key={callIndex} className="font-mono text-neutral-600">
+                                    {call.name}({JSON.stringify(call.args)})
+                                  </p>
+                                ))}
+                                <p className="text-neutral-700 whitespace-pre-wrap">
+                                  <span className="text-neutral-400">Reply:</span> {turn.text || '(empty)'}
+                                </p>
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}>
+                        {result.passed ? 'Pass' : 'Fail'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums">
+                      {result.turns.reduce((count, turn) => count + turn.toolCalls.length, 0)}
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums text-neutral-500">{result.durationMs}ms</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { getAuthConfig, safeRedirectPath } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Sign in · Express MCP Playground',
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: 'Wrong passcode, or no name given.',
+  rate_limited: 'Too many attempts. Wait a minute and try again.',
+  state: 'The sign-in took too long or was tampered with. Please try again.',
+  provider: 'The sign-in provider could not be reached.',
+  config: 'Sign-in is not configured correctly on the server.',
+}
+
+type LoginPageProps = { searchParams: Promise<{ next?: string; error?: string }> }
+
+/**
+ * Sign-in page for passcode and OIDC modes
+ */
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const config = getAuthConfig()
+  const { next: rawNext, error } = await searchParams
+  const next = safeRedirectPath(rawNext)
+  if (!config) redirect(next)
+
+  const inputClassName = 'w-full text-sm text-black bg-white border border-neutral-200 rounded-xl px-4 py-2.5 focus:outline-none focus:border-neutral-400'
+
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-sm bg-white border border-neutral-200 rounded-2xl shadow-lg shadow-black/5 p-8">
+        <header className="mb-6 text-center">
+          <p className="text-2xl font-black tracking-tighter text-black">EXPRESS</p>
+          <p className="mt-1 text-xs text-neutral-400">MCP Playground</p>
+        </header>
+
+        {error && (
+          <p className="mb-4 text-xs text-red-600 text-center">{ERROR_MESSAGES[error] ?? 'Sign-in failed.'}</p>
+        )}
+
+        {config.mode === 'passcode' ? (
+          <form method="post" action="/api/auth/login" className="space-y-3">
+            <input type="hidden" name="next" value={next} />
+            <input name="name" placeholder="Your name" required maxLength={60} autoComplete="name" className={inputClassName} />
+            <input name="passcode" type="password" placeholder="Passcode" required autoComplete="current-password" className={inputClassName} />
+            <button type="submit" className="w-full py-2.5 text-sm text-white bg-black rounded-xl hover:bg-neutral-800 transition-colors">
+              Sign in
+            </button>
+          </form>
+        ) : (
+          <a
+            href={`/api/auth/login?next=${encodeURIComponent(next)}`}
+            className="block w-full py-2.5 text-sm text-center text-white bg-black rounded-xl hover:bg-neutral-800 transition-colors"
+          >
+            Sign in with SSO
+          </a>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MCP_OAUTH_MESSAGE, type McpOAuthCallbackMessage } from '@/lib/mcp-oauth-client'
+
+/**
+ * Redirect target of the MCP OAuth flow. Hands the code to the window that
+ * opened the popup, then closes.
+ */
+export default function McpOAuthCallbackPage() {
+  const [status, setStatus] = useState('Completing sign-in…')
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if (!window.opener) {
+      setStatus('This page should be opened from the playground’s server sign-in.')
+      return
+    }
+
+    const message: McpOAuthCallbackMessage = {
+      type: MCP_OAUTH_MESSAGE,
+      state: params.get('state'),
+      code: params.get('code'),
+      error: params.get('error_description') ?? params.get('error'),
+    }
+    window.opener.postMessage(message, window.location.origin)
+    window.close()
+  }, [])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-50">
+      <p className="text-sm text-neutral-500">{status}</p>
+    </div>
+  )
+}
@@ -1,131 +1,89 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
-
-interface ToolCall {
-  name: string
-  id?: string
-  input?: Record<string, unknown>
-  status: 'running' | 'complete'
-}
-
-interface Message {
-  role: 'user' | 'assistant'
-  content: string
-  toolCalls?: ToolCall[]
-}
-
-// Simple markdown renderer
-function renderMarkdown(text: string): React.ReactNode {
-  if (!text) return null
-  
-  const lines = text.split('\n')
-  const elements: React.ReactNode[] = []
-  
-  lines.forEach((line, lineIndex) => {
-    let processed: React.ReactNode = line
-    
-    // Headers
-    if (line.startsWith('## ')) {
-      processed = <h2 key={lineIndex} className="text-lg font-bold mt-4 mb-2">{line.slice(3)}</h2>
-      elements.push(processed)
-      return
-    }
-    if (line.startsWith('# ')) {
-      processed = <h1 key={lineIndex} className="text-xl font-bold mt-4 mb-2">{line.slice(2)}</h1>
-      elements.push(processed)
-      return
-    }
-    
-    // Process inline formatting (bold)
-    const parts: React.ReactNode[] = []
-    let remaining = line
-    let partIndex = 0
-    
-    while (remaining.length > 0) {
-      const boldMatch = remaining.match(/\*\*(.+?)\*\*/)
-      if (boldMatch && boldMatch.index !== undefined) {
-        // Add text before bold
-        if (boldMatch.index > 0) {
-          parts.push(<span key={`${lineIndex}-${partIndex++}`}>{remaining.slice(0, boldMatch.index)}</span>)
-        }
-        // Add bold text
-        parts.push(<strong key={`${lineIndex}-${partIndex++}`} className="font-semibold">{boldMatch[1]}</strong>)
-        remaining = remaining.slice(boldMatch.index + boldMatch[0].length)
-      } else {
-        parts.push(<span key={`${lineIndex}-${partIndex++}`}>{remaining}</span>)
-        break
-      }
-    }
-    
-    // List items
-    if (line.startsWith('- ')) {
-      elements.push(
-        <div key={lineIndex} className="flex gap-2 ml-2 my-1">
-          <span className="text-neutral-400">•</span>
-          <span>{parts.length > 0 ? parts : line.slice(2)}</span>
-        </div>
-      )
-      return
-    }
-    
-    // Regular paragraph
-    if (line.trim() === '') {
-      elements.push(<div key={lineIndex} className="h-2" />)
-    } else {
-      elements.push(<p key={lineIndex} className="my-1">{parts.length > 0 ? parts : line}</p>)
-    }
-  })
-  
-  return <>{elements}</>
-}
-
-// Tool call pill component (like Uber example)
-function ToolCallPill({ tool, isExpanded, onToggle }: { 
-  tool: ToolCall
-  isExpanded: boolean
-  onToggle: () => void 
-}) {
-  return (
-    <div className="inline-block my-1">
-      <button
-        onClick={onToggle}
-        className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm transition-all ${
-          tool.status === 'running'
-            ? 'bg-emerald-50 border border-emerald-200'
-            : 'bg-emerald-50 border border-emerald-200 hover:bg-emerald-100'
-        }`}
-      >
-        <span className={`h-2 w-2 rounded-full ${tool.status === 'running' ? 'bg-emerald-400 animate-pulse' : 'bg-emerald-500'}`} />
-        <span className="text-emerald-700 font-medium">{tool.name}</span>
-        {tool.status === 'complete' && (
-          <svg className="h-4 w-4 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-          </svg>
-        )}
-        {tool.status === 'running' && (
-          <div className="h-3 w-3 border-2 border-emerald-300 border-t-emerald-600 rounded-full animate-spin" />
-        )}
-      </button>
-      
-      {/* Expanded details */}
-      {isExpanded && tool.input && (
-        <div className="mt-2 ml-2 p-3 bg-neutral-900 rounded-lg overflow-x-auto max-w-md">
-          <pre className="text-xs text-neutral-300 font-mono whitespace-pre-wrap">
-            {JSON.stringify(tool.input, null, 2)}
-          </pre>
-        </div>
-      )}
-    </div>
-  )
-}
+import { useState, useRef, useEffect, useMemo } from 'react'
+import { AttachmentList } from '@/components/AttachmentList'
+import { ChatMessage } from '@/components/ChatMessage'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
+import { McpInspector } from '@/components/McpInspector'
+import { ServerManager } from '@/components/ServerManager'
+import { SessionStatus } from '@/components/SessionStatus'
+import { SettingsDrawer } from '@/components/SettingsDrawer'
+import { TranscriptActions } from '@/components/TranscriptActions'
+import { ContextMeter, ConversationUsage } from '@/components/UsageDisplay'
+import { describeApiError, REQUEST_ID_HEADER } from '@/lib/api-errors'
+import { API_KEY_HEADER, loadApiKey, saveApiKey } from '@/lib/api-key'
+import {
+  ATTACHMENT_ACCEPT,
+  formatBytes,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_MESSAGE_ATTACHMENT_BYTES,
+  readAttachment,
+  toRequestMessages,
+} from '@/lib/attachments'
+import { type ChatSettings, DEFAULT_CHAT_SETTINGS } from '@/lib/chat-settings'
+import {
+  createConversation,
+  DEFAULT_CONVERSATION_TITLE,
+  deleteConversation,
+  listConversations,
+  saveConversation,
+  titleFromMessages,
+} from '@/lib/conversation-store'
+import { refreshExpiredServers } from '@/lib/mcp-oauth-client'
+import {
+  DEFAULT_MCP_SERVERS,
+  loadMcpServers,
+  saveMcpServers,
+  type McpServerConfig,
+  withoutOAuthSession,
+} from '@/lib/mcp-servers'
+import {
+  addMessage,
+  createMessageTree,
+  getActivePath,
+  getPathTo,
+  getSiblingIds,
+  type MessageNode,
+  type MessageTree,
+  selectBranch,
+  updateMessage,
+} from '@/lib/message-tree'
+import { readChatStream } from '@/lib/stream-events'
+import type { ToolDecision } from '@/lib/tool-approvals'
+import type {
+  ContentBlock,
+  Conversation,
+  Message,
+  MessageAttachment,
+  ToolCall,
+  TurnTimings,
+  TurnUsage,
+} from '@/lib/types'
 
 export default function ExpressMcpPage() {
-  const [messages, setMessages] = useState<Message[]>([])
+  const [tree, setTree] = useState<MessageTree>(createMessageTree)
   const [input, setInput] = useState('')
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([])
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const [expandedTools, setExpandedTools] = useState<Set<string>>(new Set())
+  const [servers, setServers] = useState<McpServerConfig[]>(DEFAULT_MCP_SERVERS)
+  const [serversLoaded, setServersLoaded] = useState(false)
+  const [showServers, setShowServers] = useState(false)
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [conversation, setConversation] = useState<Conversation>(() => createConversation())
+  const [showSidebar, setShowSidebar] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showInspector, setShowInspector] = useState(false)
+  const [apiKey, setApiKey] = useState('')
+  // Tree last written to (or read from) the store, to avoid redundant saves
+  const persistedTreeRef = useRef<MessageTree | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const activePath = useMemo(() => getActivePath(tree), [tree])
+  const messages = useMemo(() => activePath.map(node => node.message), [activePath])
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -135,119 +93,386 @@ export default function ExpressMcpPage() {
     scrollToBottom()
   }, [messages])
 
-  const toggleToolExpanded = (toolKey: string) => {
-    setExpandedTools(prev => {
-      const next = new Set(prev)
-      if (next.has(toolKey)) {
-        next.delete(toolKey)
-      } else {
-        next.add(toolKey)
-      }
-      return next
-    })
+  // Load saved servers after mount to keep hydration consistent
+  useEffect(() => {
+    setServers(loadMcpServers())
+    setServersLoaded(true)
+    setApiKey(loadApiKey())
+  }, [])
+
+  useEffect(() => {
+    if (serversLoaded) saveMcpServers(servers)
+  }, [servers, serversLoaded])
+
+  // Restore the most recent conversation
+  useEffect(() => {
+    listConversations()
+      .then(saved => {
+        setConversations(saved)
+        if (saved.length > 0) openConversation(saved[0])
+      })
+      .catch(error => console.error('Failed to load conversations:', error))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Persist the active conversation once a response has finished
+  useEffect(() => {
+    if (isLoading || messages.length === 0 || tree === persistedTreeRef.current) return
+    persistedTreeRef.current = tree
+
+    const updated: Conversation = {
+      ...conversation,
+      title: conversation.title === DEFAULT_CONVERSATION_TITLE ? titleFromMessages(messages) : conversation.title,
+      tree,
+      updatedAt: Date.now(),
+    }
+    setConversation(updated)
+    setConversations(prev => [updated, ...prev.filter(c => c.id !== updated.id)])
+    saveConversation(updated).catch(error => console.error('Failed to save conversation:', error))
+  }, [tree, messages, isLoading, conversation])
+
+  const openConversation = (next: Conversation) => {
+    persistedTreeRef.current = next.tree
+    setConversation(next)
+    setTree(next.tree)
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!input.trim() || isLoading) return
+  const handleNewConversation = () => {
+    // New chats start with the settings of the current one
+    openConversation(createConversation(settings))
+    setShowSidebar(false)
+  }
 
-    const userMessage: Message = { role: 'user', content: input.trim() }
-    const newMessages = [...messages, userMessage]
-    setMessages(newMessages)
-    setInput('')
-    setIsLoading(true)
+  const handleSelectConversation = (id: string) => {
+    const selected = conversations.find(c => c.id === id)
+    if (selected) openConversation(selected)
+    setShowSidebar(false)
+  }
+
+  const handleRenameConversation = (id: string, title: string) => {
+    const renamed = conversations.find(c => c.id === id)
+    if (!renamed) return
+    const updated = { ...renamed, title }
+    setConversations(prev => prev.map(c => c.id === id ? updated : c))
+    if (conversation.id === id) setConversation(prev => ({ ...prev, title }))
+    saveConversation(updated).catch(error => console.error('Failed to rename conversation:', error))
+  }
+
+  const handleDeleteConversation = (id: string) => {
+    setConversations(prev => prev.filter(c => c.id !== id))
+    if (conversation.id === id) openConversation(createConversation(settings))
+    deleteConversation(id).catch(error => console.error('Failed to delete conversation:', error))
+  }
+
+  const handleImportConversation = (imported: Conversation) => {
+    setConversations(prev => [imported, ...prev])
+    openConversation(imported)
+    saveConversation(imported).catch(error => console.error('Failed to save imported conversation:', error))
+  }
+
+  // Conversations saved before a setting existed get its default
+  const settings: ChatSettings = { ...DEFAULT_CHAT_SETTINGS, ...conversation.settings }
+
+  const handleSettingsChange = (nextSettings: ChatSettings) => {
+    const updated = { ...conversation, settings: nextSettings }
+    setConversation(updated)
+    // Unsaved chats are stored with their first message
+    if (conversations.some(c => c.id === updated.id)) {
+      setConversations(prev => prev.map(c => c.id === updated.id ? updated : c))
+      saveConversation(updated).catch(error => console.error('Failed to save settings:', error))
+    }
+  }
+
+  const enabledServerCount = servers.filter(server => server.enabled).length
+
+  /**
+   * Stream a new assistant reply to the user message `parentId`.
+   * Earlier replies to the same message are kept as sibling branches.
+   */
+  const streamReply = async (baseTree: MessageTree, parentId: string) => {
+    const history = getPathTo(baseTree, parentId).map(node => node.message)
 
     // Add empty assistant message to show typing
-    setMessages([...newMessages, { role: 'assistant', content: '', toolCalls: [] }])
+    const createdAt = Date.now()
+    const { tree: withReply, id: replyId } = addMessage(baseTree, parentId, {
+      role: 'assistant',
+      content: '',
+      toolCalls: [],
+      createdAt,
+    })
+    setTree(withReply)
+    setIsLoading(true)
+
+    const setReply = (message: Message) => setTree(prev => updateMessage(prev, replyId, message))
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    let currentContent = ''
+    let currentThinking = ''
+    let currentToolCalls: Message['toolCalls'] = []
+    let currentBlocks: ContentBlock[] | undefined
+    let currentUsage: TurnUsage | undefined
+    let currentStopReason: string | undefined
+    let currentTimings: TurnTimings | undefined
+    let currentRetry: Message['retrying']
+    let fallbackReason: string | undefined
+    let currentContext: Message['context']
+    let compaction: Message['compaction']
+    let requestId: string | undefined
+
+    const partialReply = (): Message => ({
+      role: 'assistant',
+      content: currentContent,
+      thinking: currentThinking || undefined,
+      toolCalls: currentToolCalls,
+      blocks: currentBlocks,
+      usage: currentUsage,
+      stopReason: currentStopReason,
+      timings: currentTimings,
+      retrying: currentRetry,
+      fallbackReason,
+      context: currentContext,
+      compaction,
+      createdAt,
+    })
+
+    // Tool calls left unfinished when the turn ends early
+    const settleToolCalls = (reason: string) => (currentToolCalls || []).map(tc =>
+      tc.status === 'running' || tc.status === 'awaiting_approval'
+        ? { ...tc, status: 'error' as const, error: reason, approvalRequestId: undefined }
+        : tc
+    )
 
     try {
+      // Swap OAuth tokens that are about to expire before they are used
+      const activeServers = await refreshExpiredServers(servers)
+      if (activeServers !== servers) setServers(activeServers)
+
       const response = await fetch('/api/express-mcp', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: newMessages }),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { [API_KEY_HEADER]: apiKey }),
+        },
+        body: JSON.stringify({
+          // Attachments travel as image and document blocks
+          messages: toRequestMessages(history),
+          mcpServers: activeServers.map(withoutOAuthSession),
+          settings,
+        }),
+        signal: abortController.signal,
       })
+      requestId = response.headers.get(REQUEST_ID_HEADER) ?? undefined
 
-      if (!response.ok) throw new Error('Failed to get response')
-
-      const reader = response.body?.getReader()
-      if (!reader) throw new Error('No reader available')
-
-      const decoder = new TextDecoder()
-      let currentContent = ''
-      let currentToolCalls: Message['toolCalls'] = []
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(describeApiError(body))
+      }
 
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
+      if (!response.body) throw new Error('No reader available')
 
-        const chunk = decoder.decode(value)
-        const lines = chunk.split('\n')
+      for await (const data of readChatStream(response.body)) {
+        // Any output after a retry means the request went through
+        if (data.type !== 'retrying') currentRetry = undefined
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6))
-              console.log('📨 Received event:', data.type, data)
-              
-              if (data.type === 'text') {
-                currentContent += data.content
-                setMessages([...newMessages, { 
-                  role: 'assistant', 
-                  content: currentContent,
-                  toolCalls: currentToolCalls 
-                }])
-              } else if (data.type === 'tool_start') {
-                console.log('🔧 Tool started:', data.name)
-                const toolId: string = data.id || `tool-${(currentToolCalls || []).length}`
-                currentToolCalls = [...(currentToolCalls || []), { 
-                  name: data.name,
-                  id: toolId,
-                  status: 'running' as const
-                }]
-                setMessages([...newMessages, { 
-                  role: 'assistant', 
-                  content: currentContent,
-                  toolCalls: currentToolCalls 
-                }])
-              } else if (data.type === 'tool_complete') {
-                console.log('✅ Tool completed:', data.name, data.input)
-                currentToolCalls = (currentToolCalls || []).map(tc => {
-                  if (data.id && tc.id === data.id) {
-                    return { ...tc, status: 'complete' as const, input: data.input }
-                  }
-                  if (!data.id && tc.name === data.name && tc.status === 'running') {
-                    return { ...tc, status: 'complete' as const, input: data.input }
-                  }
-                  return tc
-                })
-                setMessages([...newMessages, { 
-                  role: 'assistant', 
-                  content: currentContent,
-                  toolCalls: currentToolCalls 
-                }])
-              } else if (data.type === 'error') {
-                setMessages([...newMessages, { 
-                  role: 'assistant', 
-                  content: `Error: ${data.error}` 
-                }])
+        switch (data.type) {
+          case 'text':
+            currentContent += data.content
+            break
+          case 'thinking':
+            currentThinking += data.content
+            break
+          case 'tool_start':
+            currentToolCalls = [...(currentToolCalls || []), { 
+              name: data.name,
+              id: data.id || `tool-${(currentToolCalls || []).length}`,
+              server: data.server,
+              status: 'running' as const
+            }]
+            break
+          case 'tool_complete':
+            currentToolCalls = (currentToolCalls || []).map(tc => {
+              if (data.id && tc.id === data.id) {
+                return { ...tc, status: 'complete' as const, input: data.input }
+              }
+              if (!data.id && tc.name === data.name && tc.status === 'running') {
+                return { ...tc, status: 'complete' as const, input: data.input }
+              }
+              return tc
+            })
+            break
+          case 'tool_result': {
+            const result = data.content || []
+            const errorText = data.is_error
+              ? result.map(block => block.type === 'text' ? block.text : '').join('\n').trim() || 'Tool call failed'
+              : undefined
+            currentToolCalls = (currentToolCalls || []).map(tc => {
+              if (tc.id === data.tool_use_id) {
+                return {
+                  ...tc,
+                  status: data.is_error ? 'error' as const : 'complete' as const,
+                  result,
+                  error: errorText,
+                }
               }
-            } catch {
-              // Ignore parse errors for incomplete chunks
-            }
+              return tc
+            })
+            break
           }
+          case 'tool_approval_required':
+            currentToolCalls = (currentToolCalls || []).map(tc => tc.id === data.tool_use_id
+              ? { ...tc, status: 'awaiting_approval' as const, input: data.input, approvalRequestId: data.request_id }
+              : tc
+            )
+            break
+          case 'tool_decision':
+            currentToolCalls = (currentToolCalls || []).map(tc => {
+              if (tc.id !== data.tool_use_id) return tc
+              return data.approved
+                ? { ...tc, status: 'running' as const, input: data.input ?? tc.input, approvalRequestId: undefined }
+                : { ...tc, status: 'denied' as const, error: data.reason || 'Denied', approvalRequestId: undefined }
+            })
+            break
+          case 'message':
+            currentBlocks = data.content || []
+            break
+          case 'usage':
+            currentUsage = data.usage
+            currentStopReason = data.stop_reason ?? undefined
+            currentTimings = data.timings
+            break
+          case 'retrying':
+            currentRetry = { attempt: data.attempt, maxAttempts: data.max_attempts, message: data.message }
+            break
+          case 'fallback':
+            fallbackReason = data.reason
+            break
+          case 'context':
+            currentContext = data.context
+            break
+          case 'context_compacted':
+            compaction = data.compaction
+            break
+          case 'error':
+            // Keep whatever was streamed before the failure
+            setReply({
+              ...partialReply(),
+              toolCalls: settleToolCalls('Interrupted'),
+              error: data.error,
+              errorKind: data.kind,
+              requestId,
+            })
+            continue
+          case 'done':
+            continue
         }
+
+        setReply(partialReply())
       }
     } catch (error) {
+      // Stopped by the user: keep the partial answer so it can be used as context
+      if (abortController.signal.aborted) {
+        setReply({
+          ...partialReply(),
+          retrying: undefined,
+          toolCalls: settleToolCalls('Stopped'),
+          stopped: true,
+        })
+        return
+      }
       console.error('Error:', error)
-      setMessages([...newMessages, { 
-        role: 'assistant', 
-        content: 'Sorry, something went wrong. Please try again.' 
-      }])
+      setReply({
+        ...partialReply(),
+        retrying: undefined,
+        toolCalls: settleToolCalls('Interrupted'),
+        error: error instanceof Error ? error.message : 'Sorry, something went wrong. Please try again.',
+        requestId,
+      })
     } finally {
+      abortControllerRef.current = null
       setIsLoading(false)
     }
   }
 
+  // Add a user message under `parentId` (null for the first turn) and answer it
+  const sendMessage = (parentId: string | null, content: string, messageAttachments?: MessageAttachment[]) => {
+    const { tree: withMessage, id } = addMessage(tree, parentId, {
+      role: 'user',
+      content,
+      ...(messageAttachments?.length && { attachments: messageAttachments }),
+      createdAt: Date.now(),
+    })
+    streamReply(withMessage, id)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if ((!input.trim() && attachments.length === 0) || isLoading) return
+    sendMessage(activePath.at(-1)?.id ?? null, input.trim(), attachments)
+    setInput('')
+    setAttachments([])
+    setAttachmentError(null)
+  }
+
+  // Files from the picker, a drop or a paste; invalid ones are reported, not added
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return
+    const free = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length
+    const results = await Promise.all(files.slice(0, Math.max(free, 0)).map(readAttachment))
+
+    const errors: string[] = []
+    const added: MessageAttachment[] = []
+    let total = attachments.reduce((sum, attachment) => sum + attachment.size, 0)
+    for (const result of results) {
+      if (!result.ok) {
+        errors.push(result.error)
+      } else if (total + result.attachment.size > MAX_MESSAGE_ATTACHMENT_BYTES) {
+        errors.push(`${result.attachment.name} would take the message past ${formatBytes(MAX_MESSAGE_ATTACHMENT_BYTES)} of attachments`)
+      } else {
+        total += result.attachment.size
+        added.push(result.attachment)
+      }
+    }
+    if (files.length > free) errors.push(`At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to a message`)
+    setAttachmentError(errors.length > 0 ? errors.join('. ') : null)
+    setAttachments(prev => [...prev, ...added])
+  }
+
+  // Editing forks a new branch next to the original message, keeping its attachments
+  const handleEdit = (node: MessageNode, content: string) => {
+    if (isLoading) return
+    sendMessage(node.parentId, content, node.message.attachments)
+  }
+
+  const handleRegenerate = (node: MessageNode) => {
+    if (isLoading || !node.parentId) return
+    streamReply(tree, node.parentId)
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // The stream reports the outcome with a tool_decision event
+  const handleToolDecision = async (tool: ToolCall, decision: ToolDecision) => {
+    if (!tool.approvalRequestId || !tool.id) return
+    try {
+      const response = await fetch('/api/express-mcp/approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: tool.approvalRequestId, toolUseId: tool.id, ...decision }),
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || 'Failed to send decision')
+      }
+    } catch (error) {
+      console.error('Tool decision error:', error)
+      window.alert(error instanceof Error ? error.message : 'Failed to send decision')
+    }
+  }
+
   return (
     <div className="min-h-screen bg-neutral-50 flex flex-col">
       {/* Subtle background pattern */}
@@ -255,6 +480,99 @@ export default function ExpressMcpPage() {
         <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_120%,rgba(0,0,0,0.03),transparent_70%)]" />
       </div>
 
+      {/* Saved conversations */}
+      <div className="fixed top-4 left-4 z-20">
+        <button
+          onClick={() => setShowSidebar(true)}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm text-black bg-white/70 hover:bg-white backdrop-blur-xl border border-neutral-200 rounded-xl shadow-lg shadow-black/5 transition-all"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+          </svg>
+          Chats
+        </button>
+      </div>
+      {showSidebar && (
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={conversation.id}
+          disabled={isLoading}
+          onSelect={handleSelectConversation}
+          onNew={handleNewConversation}
+          onRename={handleRenameConversation}
+          onDelete={handleDeleteConversation}
+          onClose={() => setShowSidebar(false)}
+          footer={
+            <>
+              <TranscriptActions
+                conversation={{ ...conversation, tree }}
+                disabled={isLoading}
+                onImport={handleImportConversation}
+              />
+              <SessionStatus />
+            </>
+          }
+        />
+      )}
+
+      {/* Server manager */}
+      <div className="fixed top-4 right-4 z-20 flex flex-col items-end gap-2">
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowInspector(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm text-black bg-white/70 hover:bg-white backdrop-blur-xl border border-neutral-200 rounded-xl shadow-lg shadow-black/5 transition-all"
+          >
+            Inspector
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm text-black bg-white/70 hover:bg-white backdrop-blur-xl border border-neutral-200 rounded-xl shadow-lg shadow-black/5 transition-all"
+          >
+            Settings
+          </button>
+          <button
+            onClick={() => setShowServers(prev => !prev)}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm text-black bg-white/70 hover:bg-white backdrop-blur-xl border border-neutral-200 rounded-xl shadow-lg shadow-black/5 transition-all"
+          >
+            <span className={`h-2 w-2 rounded-full ${enabledServerCount > 0 ? 'bg-emerald-500' : 'bg-neutral-300'}`} />
+            Servers
+            <span className="text-neutral-400">{enabledServerCount}/{servers.length}</span>
+          </button>
+        </div>
+        {showServers && (
+          <ServerManager
+            servers={servers}
+            onChange={setServers}
+            onClose={() => setShowServers(false)}
+          />
+        )}
+      </div>
+
+      {showSettings && (
+        <SettingsDrawer
+          settings={settings}
+          apiKey={apiKey}
+          disabled={isLoading}
+          onChange={handleSettingsChange}
+          onApiKeyChange={(nextApiKey) => {
+            setApiKey(nextApiKey)
+            saveApiKey(nextApiKey)
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showInspector && (
+        <McpInspector
+          servers={servers.filter(server => server.enabled)}
+          onSendToChat={(text) => {
+            setInput(prev => (prev ? `${prev}\n\n${text}` : text))
+            setShowInspector(false)
+          }}
+          onClose={() => setShowInspector(false)}
+        />
+      )}
+
       {/* Messages Area */}
       <div className="flex-1 overflow-hidden relative">
         {messages.length === 0 ? (
@@ -295,56 +613,26 @@ export default function ExpressMcpPage() {
         ) : (
           <div className="h-full overflow-y-auto px-4 py-8">
             <div className="max-w-2xl mx-auto space-y-6">
-              {messages.map((message, messageIndex) => (
-                <div
-                  key={messageIndex}
-                  className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                >
-                  {message.role === 'user' ? (
-                    <div className="max-w-[85%] bg-black text-white rounded-2xl rounded-br-md px-5 py-3 shadow-lg shadow-black/20">
-                      <div className="whitespace-pre-wrap leading-relaxed">
-                        {message.content}
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="max-w-[85%] bg-white border border-neutral-200 rounded-2xl rounded-bl-md px-5 py-4 shadow-sm">
-                      {/* Tool calls as inline pills */}
-                      {message.toolCalls && message.toolCalls.length > 0 && (
-                        <div className="flex flex-wrap gap-2 mb-3">
-                          {message.toolCalls.map((tool, toolIndex) => {
-                            const toolKey = `${messageIndex}-${toolIndex}`
-                            return (
-                              <ToolCallPill
-                                key={toolKey}
-                                tool={tool}
-                                isExpanded={expandedTools.has(toolKey)}
-                                onToggle={() => toggleToolExpanded(toolKey)}
-                              />
-                            )
-                          })}
-                        </div>
-                      )}
-                      
-                      {/* Message content with markdown */}
-                      <div className="text-black leading-relaxed">
-                        {message.content ? (
-                          renderMarkdown(message.content)
-                        ) : (
-                          isLoading && !message.toolCalls?.length && (
-                            <div className="flex items-center gap-2 text-neutral-400">
-                              <div className="flex gap-1">
-                                <div className="h-2 w-2 bg-neutral-300 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                                <div className="h-2 w-2 bg-neutral-300 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                                <div className="h-2 w-2 bg-neutral-300 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
-                              </div>
-                            </div>
-                          )
-                        )}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))}
+              {activePath.map((node, nodeIndex) => {
+                const isLast = nodeIndex === activePath.length - 1
+                const siblingIds = getSiblingIds(tree, node.id)
+                return (
+                  <ChatMessage
+                    key={node.id}
+                    message={node.message}
+                    isStreaming={isLoading && isLast}
+                    actionsDisabled={isLoading}
+                    branch={siblingIds.length > 1 ? {
+                      index: siblingIds.indexOf(node.id),
+                      count: siblingIds.length,
+                      onSelect: (index) => setTree(prev => selectBranch(prev, siblingIds[index])),
+                    } : undefined}
+                    onToolDecision={isLoading && isLast ? handleToolDecision : undefined}
+                    onEdit={node.message.role === 'user' ? (content) => handleEdit(node, content) : undefined}
+                    onRegenerate={node.message.role === 'assistant' ? () => handleRegenerate(node) : undefined}
+                  />
+                )
+              })}
               <div ref={messagesEndRef} />
             </div>
           </div>
@@ -353,40 +641,107 @@ export default function ExpressMcpPage() {
 
       {/* Input Area */}
       <div className="border-t border-neutral-200 bg-white/80 backdrop-blur-xl px-4 py-5">
-        <form onSubmit={handleSubmit} className="max-w-2xl mx-auto">
+        <form
+          onSubmit={handleSubmit}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false)
+          }}
+          onDrop={(e) => {
+            e.preventDefault()
+            setIsDragging(false)
+            addFiles(Array.from(e.dataTransfer.files))
+          }}
+          className="max-w-2xl mx-auto"
+        >
           <div className="relative">
-            <div className="relative flex items-center gap-3 bg-white border border-neutral-200 rounded-2xl px-4 py-3 shadow-lg shadow-black/5 focus-within:shadow-xl focus-within:shadow-black/10 focus-within:border-neutral-300 transition-all duration-300">
-              <input
-                type="text"
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
+            <div className={`relative bg-white border rounded-2xl px-4 py-3 shadow-lg shadow-black/5 focus-within:shadow-xl focus-within:shadow-black/10 focus-within:border-neutral-300 transition-all duration-300 ${isDragging ? 'border-black border-dashed' : 'border-neutral-200'}`}>
+              {attachments.length > 0 && (
+                <div className="mb-3">
+                  <AttachmentList
+                    attachments={attachments}
+                    onRemove={(id) => setAttachments(prev => prev.filter(attachment => attachment.id !== id))}
+                  />
+                </div>
+              )}
+              <div className="flex items-center gap-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ATTACHMENT_ACCEPT}
+                  multiple
+                  onChange={(e) => {
+                    addFiles(Array.from(e.target.files ?? []))
+                    e.target.value = ''
+                  }}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={attachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                  aria-label="Attach images or PDFs"
+                  title="Attach images or PDFs"
+                  className="shrink-0 p-1.5 text-neutral-400 hover:text-black disabled:opacity-30 transition-colors"
+                >
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+                  </svg>
+                </button>
+                <textarea
+                  rows={Math.min(input.split('\n').length, 8)}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault()
+                      handleSubmit(e)
+                    }
+                  }}
+                  onPaste={(e) => {
+                    const files = Array.from(e.clipboardData.files)
+                    if (files.length === 0) return
                     e.preventDefault()
-                    handleSubmit(e)
-                  }
-                }}
-                placeholder="Message Express..."
-                className="flex-1 bg-transparent text-black placeholder:text-neutral-400 focus:outline-none text-sm h-6"
-              />
-              <button
-                type="submit"
-                disabled={!input.trim() || isLoading}
-                className="shrink-0 p-3 bg-black hover:bg-neutral-800 disabled:bg-neutral-200 disabled:cursor-not-allowed rounded-xl transition-all duration-200 shadow-md hover:shadow-lg disabled:shadow-none"
-              >
+                    addFiles(files)
+                  }}
+                  placeholder="Message Express..."
+                  className="flex-1 bg-transparent text-black placeholder:text-neutral-400 focus:outline-none text-sm leading-6 resize-none"
+                />
                 {isLoading ? (
-                  <div className="h-5 w-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    aria-label="Stop generating"
+                    className="shrink-0 p-3 bg-black hover:bg-neutral-800 rounded-xl transition-all duration-200 shadow-md hover:shadow-lg"
+                  >
+                    <div className="h-5 w-5 flex items-center justify-center">
+                      <div className="h-3 w-3 bg-white rounded-sm" />
+                    </div>
+                  </button>
                 ) : (
-                  <svg className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" />
-                  </svg>
+                  <button
+                    type="submit"
+                    disabled={!input.trim() && attachments.length === 0}
+                    className="shrink-0 p-3 bg-black hover:bg-neutral-800 disabled:bg-neutral-200 disabled:cursor-not-allowed rounded-xl transition-all duration-200 shadow-md hover:shadow-lg disabled:shadow-none"
+                  >
+                    <svg className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" />
+                    </svg>
+                  </button>
                 )}
-              </button>
+              </div>
             </div>
           </div>
+          {attachmentError && <p className="text-xs text-red-600 mt-2">{attachmentError}</p>}
           <p className="text-center text-xs text-neutral-400 mt-3">
-            Press <kbd className="px-1.5 py-0.5 bg-neutral-100 border border-neutral-200 rounded text-neutral-500 font-mono text-[10px]">Enter</kbd> to send
+            Press <kbd className="px-1.5 py-0.5 bg-neutral-100 border border-neutral-200 rounded text-neutral-500 font-mono text-[10px]">Enter</kbd> to send, <kbd className="px-1.5 py-0.5 bg-neutral-100 border border-neutral-200 rounded text-neutral-500 font-mono text-[10px]">Shift+Enter</kbd> for a new line. Drop, paste or attach images and PDFs.
           </p>
+          <ContextMeter messages={messages} compactThreshold={settings.compaction === 'off' ? undefined : settings.compactThreshold} />
+          <ConversationUsage messages={messages} />
         </form>
       </div>
     </div>
@@ -0,0 +1,51 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { ChatMessage } from '@/components/ChatMessage'
+import { ConversationUsage } from '@/components/UsageDisplay'
+import { getModelOption } from '@/lib/chat-settings'
+import { shareStore } from '@/lib/share-store'
+
+export const dynamic = 'force-dynamic'
+
+type SharePageProps = { params: Promise<{ id: string }> }
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const transcript = await shareStore.get((await params).id)
+  return { title: transcript ? `${transcript.conversation.title} · Express MCP Playground` : 'Not found' }
+}
+
+/**
+ * Read-only view of a shared transcript
+ */
+export default async function SharePage({ params }: SharePageProps) {
+  const transcript = await shareStore.get((await params).id)
+  if (!transcript) notFound()
+
+  const { conversation } = transcript
+  const model = conversation.settings && (getModelOption(conversation.settings.model)?.label ?? conversation.settings.model)
+
+  return (
+    <div className="min-h-screen bg-neutral-50 px-4 py-10">
+      <div className="max-w-2xl mx-auto">
+        <header className="mb-8 text-center">
+          <p className="text-xs font-black tracking-tighter text-black">EXPRESS</p>
+          <h1 className="mt-2 text-2xl font-bold text-black">{conversation.title}</h1>
+          <p className="mt-1 text-xs text-neutral-400">
+            Shared transcript · {new Date(conversation.updatedAt).toLocaleString()}
+            {model && ` · ${model}`}
+          </p>
+        </header>
+
+        <div className="space-y-6">
+          {conversation.messages.map((message, messageIndex) => (
+            <ChatMessage key={messageIndex} message={message} />
+          ))}
+        </div>
+
+        <div className="mt-8">
+          <ConversationUsage messages={conversation.messages} />
+        </div>
+      </div>
+    </div>
+  )
+}
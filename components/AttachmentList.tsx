@@ -0,0 +1,46 @@
+import { attachmentDataUrl, formatBytes } from '@/lib/attachments'
+import type { MessageAttachment } from '@/lib/types'
+
+/**
+ * Thumbnails of a message's images and PDFs, removable in the composer
+ */
+export function AttachmentList({ attachments, onRemove }: {
+  attachments: MessageAttachment[]
+  // Only set while the message is being written
+  onRemove?: (id: string) => void
+}) {
+  if (attachments.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="relative group" title={`${attachment.name} (${formatBytes(attachment.size)})`}>
+          {attachment.kind === 'image' ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={attachmentDataUrl(attachment)}
+              alt={attachment.name}
+              className="h-16 w-16 object-cover rounded-lg border border-neutral-200 bg-white"
+            />
+          ) : (
+            <div className="h-16 w-32 flex flex-col justify-center gap-0.5 px-2 rounded-lg border border-neutral-200 bg-white text-left">
+              <span className="text-[10px] font-medium uppercase tracking-wider text-red-600">PDF</span>
+              <span className="text-xs text-black truncate">{attachment.name}</span>
+              <span className="text-[10px] text-neutral-400">{formatBytes(attachment.size)}</span>
+            </div>
+          )}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              aria-label={`Remove ${attachment.name}`}
+              className="absolute -top-1.5 -right-1.5 h-5 w-5 flex items-center justify-center rounded-full bg-black text-white text-xs opacity-80 hover:opacity-100"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
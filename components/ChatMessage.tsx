@@ -0,0 +1,262 @@
+'use client'
+
+import { useState } from 'react'
+import type { ChatErrorKind } from '@/lib/chat-errors'
+import type { ToolDecision } from '@/lib/tool-approvals'
+import type { ContextCompaction, Message, ToolCall } from '@/lib/types'
+import { AttachmentList } from './AttachmentList'
+import { Markdown } from './Markdown'
+import { ReasoningBlock } from './ReasoningBlock'
+import { ToolCallPill } from './ToolCallPill'
+import { MessageUsage } from './UsageDisplay'
+
+const ERROR_TITLES: Record<ChatErrorKind, string> = {
+  mcp_unreachable: 'MCP server unreachable',
+  auth: 'Authentication failed',
+  rate_limit: 'Rate limited',
+  overloaded: 'API overloaded',
+  timeout: 'Timed out',
+  unknown: 'Error',
+}
+
+export interface MessageBranch {
+  index: number
+  count: number
+  onSelect: (index: number) => void
+}
+
+/**
+ * ‹ 2/3 › switcher between sibling versions of a message
+ */
+function BranchNavigator({ branch, disabled }: { branch: MessageBranch; disabled: boolean }) {
+  return (
+    <span className="inline-flex items-center gap-1 tabular-nums">
+      <button
+        onClick={() => branch.onSelect(branch.index - 1)}
+        disabled={disabled || branch.index === 0}
+        className="px-1 hover:text-black disabled:opacity-30"
+        aria-label="Previous version"
+      >
+        ‹
+      </button>
+      {branch.index + 1}/{branch.count}
+      <button
+        onClick={() => branch.onSelect(branch.index + 1)}
+        disabled={disabled || branch.index === branch.count - 1}
+        className="px-1 hover:text-black disabled:opacity-30"
+        aria-label="Next version"
+      >
+        ›
+      </button>
+    </span>
+  )
+}
+
+/**
+ * Divider before the reply of the turn that compacted the context
+ */
+function CompactionMarker({ compaction }: { compaction: ContextCompaction }) {
+  const details = [
+    compaction.droppedBefore > 0 && `${compaction.droppedBefore} earlier messages ${compaction.summary ? 'summarized' : 'removed'}`,
+    compaction.clearedToolResults &&
+      `${compaction.clearedToolResults} old tool ${compaction.clearedToolResults === 1 ? 'result' : 'results'} cleared`,
+    `${compaction.tokensBefore.toLocaleString()} → ${compaction.tokensAfter.toLocaleString()} tokens`,
+  ].filter(Boolean)
+
+  return (
+    <div className="self-stretch mb-4 text-center">
+      <div className="flex items-center gap-3 text-[10px] uppercase tracking-wider text-neutral-400">
+        <div className="flex-1 h-px bg-neutral-200" />
+        Context compacted
+        <div className="flex-1 h-px bg-neutral-200" />
+      </div>
+      <p className="mt-1 text-[10px] text-neutral-400">{details.join(' · ')}</p>
+      {compaction.summary && (
+        <details className="mt-1 text-xs text-left">
+          <summary className="text-center text-[10px] text-neutral-400 hover:text-black cursor-pointer">Show summary</summary>
+          <div className="mt-2 rounded-md border border-neutral-200 bg-white px-3 py-2 text-neutral-600 whitespace-pre-wrap">
+            {compaction.summary}
+          </div>
+        </details>
+      )}
+    </div>
+  )
+}
+
+/**
+ * A single chat bubble, shared by the playground and read-only transcripts
+ */
+export function ChatMessage({ message, isStreaming = false, actionsDisabled = false, branch, onToolDecision, onEdit, onRegenerate }: {
+  message: Message
+  isStreaming?: boolean
+  // Branch actions are shown but inactive while a response is streaming
+  actionsDisabled?: boolean
+  // Only set when the message has sibling versions
+  branch?: MessageBranch
+  // Only set where tool calls can still be approved
+  onToolDecision?: (tool: ToolCall, decision: ToolDecision) => void
+  // Resend an edited copy of a user message, with its attachments, as a new branch
+  onEdit?: (content: string) => void
+  // Generate another version of an assistant message
+  onRegenerate?: () => void
+}) {
+  const [expandedTools, setExpandedTools] = useState<Set<number>>(new Set())
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const toggleToolExpanded = (toolIndex: number) => {
+    setExpandedTools(prev => {
+      const next = new Set(prev)
+      if (next.has(toolIndex)) {
+        next.delete(toolIndex)
+      } else {
+        next.add(toolIndex)
+      }
+      return next
+    })
+  }
+
+  // A message with attachments can be resent without text
+  const canSubmitEdit = draft !== null && (!!draft.trim() || !!message.attachments?.length)
+
+  const submitEdit = () => {
+    if (!canSubmitEdit || !onEdit) return
+    onEdit(draft.trim())
+    setDraft(null)
+  }
+
+  const hasActions = !isStreaming && (branch || onEdit || onRegenerate)
+
+  const actions = hasActions && (
+    <div className="mt-1 flex items-center gap-3 px-1 text-xs text-neutral-400">
+      {branch && <BranchNavigator branch={branch} disabled={actionsDisabled} />}
+      {onEdit && draft === null && (
+        <button onClick={() => setDraft(message.content)} disabled={actionsDisabled} className="hover:text-black disabled:opacity-30">
+          Edit
+        </button>
+      )}
+      {onRegenerate && (
+        <button onClick={onRegenerate} disabled={actionsDisabled} className="hover:text-black disabled:opacity-30">
+          Regenerate
+        </button>
+      )}
+    </div>
+  )
+
+  return (
+    <div className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+      {message.compaction && <CompactionMarker compaction={message.compaction} />}
+      {message.role === 'user' ? (
+        draft !== null ? (
+          <div className="w-[85%] bg-white border border-neutral-300 rounded-2xl rounded-br-md p-3 shadow-lg shadow-black/5">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  submitEdit()
+                }
+                if (e.key === 'Escape') setDraft(null)
+              }}
+              rows={Math.min(Math.max(draft.split('\n').length, 2), 10)}
+              autoFocus
+              className="w-full bg-transparent text-sm text-black leading-relaxed resize-none focus:outline-none"
+            />
+            <div className="flex justify-end gap-2 mt-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1 text-xs text-neutral-500 hover:text-black">
+                Cancel
+              </button>
+              <button
+                onClick={submitEdit}
+                disabled={actionsDisabled || !canSubmitEdit}
+                className="px-3 py-1 text-xs text-white bg-black rounded-md hover:bg-neutral-800 disabled:opacity-50"
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="max-w-[85%] bg-black text-white rounded-2xl rounded-br-md px-5 py-3 shadow-lg shadow-black/20 space-y-2">
+            {message.attachments && <AttachmentList attachments={message.attachments} />}
+            {message.content && (
+              <div className="whitespace-pre-wrap leading-relaxed">
+                {message.content}
+              </div>
+            )}
+          </div>
+        )
+      ) : (
+        <div className="max-w-[85%] bg-white border border-neutral-200 rounded-2xl rounded-bl-md px-5 py-4 shadow-sm">
+          {message.fallbackReason && (
+            <div className="mb-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
+              Answered without MCP tools. {message.fallbackReason}
+            </div>
+          )}
+
+          {message.thinking && (
+            <ReasoningBlock
+              thinking={message.thinking}
+              isStreaming={isStreaming && !message.content}
+            />
+          )}
+
+          {/* Tool calls as inline pills */}
+          {message.toolCalls && message.toolCalls.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {message.toolCalls.map((tool, toolIndex) => (
+                <ToolCallPill
+                  key={toolIndex}
+                  tool={tool}
+                  isExpanded={expandedTools.has(toolIndex)}
+                  onToggle={() => toggleToolExpanded(toolIndex)}
+                  onDecision={onToolDecision && ((decision) => onToolDecision(tool, decision))}
+                />
+              ))}
+            </div>
+          )}
+          
+          {/* Message content with markdown */}
+          <div className="text-black leading-relaxed">
+            {message.content ? (
+              <Markdown text={message.content} />
+            ) : (
+              isStreaming && !message.retrying && !message.toolCalls?.length && !message.thinking && (
+                <div className="flex items-center gap-2 text-neutral-400">
+                  <div className="flex gap-1">
+                    <div className="h-2 w-2 bg-neutral-300 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                    <div className="h-2 w-2 bg-neutral-300 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                    <div className="h-2 w-2 bg-neutral-300 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+
+          {message.stopped && (
+            <div className="mt-2 text-xs text-neutral-400 italic">Stopped</div>
+          )}
+
+          {isStreaming && message.retrying && (
+            <div className="mt-2 text-xs text-amber-600">
+              {message.retrying.message} Retrying… (attempt {message.retrying.attempt} of {message.retrying.maxAttempts})
+            </div>
+          )}
+
+          {message.error && (
+            <div className="mt-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+              <div>
+                <span className="font-medium">{ERROR_TITLES[message.errorKind ?? 'unknown']}:</span> {message.error}
+              </div>
+              {message.requestId && (
+                <div className="mt-1 text-[10px] text-red-400 font-mono select-all">Request ID {message.requestId}</div>
+              )}
+            </div>
+          )}
+
+          <MessageUsage message={message} />
+        </div>
+      )}
+      {actions}
+    </div>
+  )
+}
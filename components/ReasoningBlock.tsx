@@ -0,0 +1,34 @@
+'use client'
+
+import { useState } from 'react'
+
+/**
+ * Collapsible extended-thinking output of an assistant turn
+ */
+export function ReasoningBlock({ thinking, isStreaming }: { thinking: string; isStreaming: boolean }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div className="mb-3">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="inline-flex items-center gap-1.5 text-xs text-neutral-500 hover:text-black transition-colors"
+      >
+        <svg
+          className={`h-3 w-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        {isStreaming ? 'Reasoning…' : 'Reasoning'}
+      </button>
+      {isExpanded && (
+        <div className="mt-2 pl-3 border-l-2 border-neutral-200 text-xs text-neutral-500 whitespace-pre-wrap leading-relaxed max-h-80 overflow-y-auto">
+          {thinking}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+
+interface JsonSchema {
+  type?: string | string[]
+  description?: string
+  enum?: unknown[]
+  default?: unknown
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+}
+
+const inputClassName = 'w-full text-xs font-mono text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400'
+
+function primaryType(schema: JsonSchema): string | undefined {
+  return Array.isArray(schema.type) ? schema.type.find(type => type !== 'null') : schema.type
+}
+
+// Objects, arrays and unions are edited as raw JSON
+function JsonField({ value, onChange }: { value: unknown; onChange: (value: unknown) => void }) {
+  const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2))
+  const [error, setError] = useState('')
+
+  return (
+    <>
+      <textarea
+        value={text}
+        rows={3}
+        spellCheck={false}
+        onChange={(e) => {
+          setText(e.target.value)
+          if (!e.target.value.trim()) {
+            setError('')
+            onChange(undefined)
+            return
+          }
+          try {
+            onChange(JSON.parse(e.target.value))
+            setError('')
+          } catch {
+            setError('Invalid JSON')
+          }
+        }}
+        className={`${inputClassName} resize-y`}
+      />
+      {error && <span className="text-[10px] text-red-600">{error}</span>}
+    </>
+  )
+}
+
+function SchemaField({ schema, value, onChange }: {
+  schema: JsonSchema
+  value: unknown
+  onChange: (value: unknown) => void
+}) {
+  const type = primaryType(schema)
+
+  if (schema.enum) {
+    return (
+      <select
+        value={value === undefined ? '' : JSON.stringify(value)}
+        onChange={(e) => onChange(e.target.value ? JSON.parse(e.target.value) : undefined)}
+        className={inputClassName}
+      >
+        <option value="">—</option>
+        {schema.enum.map(option => (
+          <option key={JSON.stringify(option)} value={JSON.stringify(option)}>{String(option)}</option>
+        ))}
+      </select>
+    )
+  }
+
+  switch (type) {
+    case 'string':
+      return (
+        <input
+          type="text"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          className={inputClassName}
+        />
+      )
+    case 'number':
+    case 'integer':
+      return (
+        <input
+          type="number"
+          step={type === 'integer' ? 1 : 'any'}
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          className={inputClassName}
+        />
+      )
+    case 'boolean':
+      return (
+        <select
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+          className={inputClassName}
+        >
+          <option value="">—</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      )
+    default:
+      return <JsonField value={value} onChange={onChange} />
+  }
+}
+
+/**
+ * Form generated from a JSON Schema object (e.g. a tool's input schema).
+ * Top-level properties get typed inputs; nested values are edited as JSON.
+ */
+export function SchemaForm({ schema, value, onChange }: {
+  schema: Record<string, unknown>
+  value: Record<string, unknown>
+  onChange: (value: Record<string, unknown>) => void
+}) {
+  const { properties = {}, required = [] } = schema as JsonSchema
+  const names = Object.keys(properties)
+
+  if (names.length === 0) {
+    return <p className="text-xs text-neutral-400">No arguments.</p>
+  }
+
+  const setField = (name: string, fieldValue: unknown) => {
+    const next = { ...value }
+    if (fieldValue === undefined) {
+      delete next[name]
+    } else {
+      next[name] = fieldValue
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {names.map(name => {
+        const property = properties[name]
+        return (
+          <label key={name} className="block space-y-1">
+            <span className="flex items-baseline gap-2">
+              <span className="text-xs font-mono text-black">{name}</span>
+              {required.includes(name) && <span className="text-[10px] text-red-500">required</span>}
+              <span className="text-[10px] text-neutral-400">{primaryType(property) ?? 'json'}</span>
+            </span>
+            {property.description && (
+              <span className="block text-[10px] text-neutral-500">{property.description}</span>
+            )}
+            <SchemaField schema={property} value={value[name]} onChange={(fieldValue) => setField(name, fieldValue)} />
+          </label>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import { useState } from 'react'
+import { authorizeMcpServer } from '@/lib/mcp-oauth-client'
+import { isHttpUrl, MAX_MCP_SERVERS, type McpServerConfig } from '@/lib/mcp-servers'
+import { ToolBrowser } from './ToolBrowser'
+
+/**
+ * Input that keeps edits to itself until blur or Enter, so a half-typed value
+ * is never saved or used to connect
+ */
+function DraftInput({ value, onCommit, check, ...props }: Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> & {
+  value: string
+  onCommit: (value: string) => void
+  // Why a value cannot be saved, if it cannot
+  check?: (value: string) => string | undefined
+}) {
+  const [draft, setDraft] = useState(value)
+  const [error, setError] = useState('')
+
+  const commit = () => {
+    const next = draft.trim()
+    const problem = next === value ? undefined : check?.(next)
+    setError(problem ?? '')
+    if (!problem && next !== value) onCommit(next)
+  }
+
+  return (
+    <>
+      <input
+        {...props}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        aria-invalid={!!error}
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </>
+  )
+}
+
+/**
+ * Panel to register, edit and toggle MCP servers
+ */
+export function ServerManager({ servers, onChange, onClose }: {
+  servers: McpServerConfig[]
+  onChange: (servers: McpServerConfig[]) => void
+  onClose: () => void
+}) {
+  const [draft, setDraft] = useState({ name: '', url: '', authorization_token: '' })
+  const [error, setError] = useState('')
+  const [browsingServerId, setBrowsingServerId] = useState<string | null>(null)
+  const [authorizingServerId, setAuthorizingServerId] = useState<string | null>(null)
+  const [oauthError, setOauthError] = useState<{ serverId: string; message: string } | null>(null)
+
+  const updateServer = (id: string, patch: Partial<McpServerConfig>) => {
+    onChange(servers.map(server => server.id === id ? { ...server, ...patch } : server))
+  }
+
+  const signIn = async (server: McpServerConfig) => {
+    setAuthorizingServerId(server.id)
+    setOauthError(null)
+    try {
+      const { authorization_token, oauth } = await authorizeMcpServer(server)
+      updateServer(server.id, { authorization_token, oauth })
+    } catch (error) {
+      setOauthError({ serverId: server.id, message: error instanceof Error ? error.message : 'Sign-in failed' })
+    } finally {
+      setAuthorizingServerId(null)
+    }
+  }
+
+  const removeServer = (id: string) => {
+    onChange(servers.filter(server => server.id !== id))
+  }
+
+  const addServer = (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = draft.name.trim()
+    const url = draft.url.trim()
+
+    if (!name || !url) {
+      setError('Name and URL are required')
+      return
+    }
+    if (servers.some(server => server.name === name)) {
+      setError(`A server named "${name}" already exists`)
+      return
+    }
+    if (!isHttpUrl(url)) {
+      setError('URL must start with http:// or https://')
+      return
+    }
+
+    onChange([...servers, {
+      id: crypto.randomUUID(),
+      name,
+      url,
+      enabled: true,
+      authorization_token: draft.authorization_token.trim() || undefined,
+    }])
+    setDraft({ name: '', url: '', authorization_token: '' })
+    setError('')
+  }
+
+  return (
+    <div className="w-full max-w-md bg-white border border-neutral-200 rounded-2xl shadow-xl shadow-black/10 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-bold tracking-wide uppercase text-black">MCP Servers</h2>
+        <button onClick={onClose} className="text-neutral-400 hover:text-black" aria-label="Close">
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Registered servers */}
+      <div className="space-y-3 max-h-80 overflow-y-auto">
+        {servers.length === 0 && (
+          <p className="text-xs text-neutral-400">No servers registered.</p>
+        )}
+        {servers.map(server => (
+          <div key={server.id} className="border border-neutral-200 rounded-xl p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={server.enabled}
+                onChange={(e) => updateServer(server.id, { enabled: e.target.checked })}
+                className="accent-black"
+                aria-label={`Enable ${server.name}`}
+              />
+              <span className="flex-1 text-sm font-medium text-black truncate">{server.name}</span>
+              <button
+                onClick={() => setBrowsingServerId(browsingServerId === server.id ? null : server.id)}
+                className="text-xs text-neutral-400 hover:text-black"
+              >
+                {browsingServerId === server.id ? 'Hide tools' : 'Tools'}
+                {server.allowedTools && ` (${server.allowedTools.length})`}
+              </button>
+              <button
+                onClick={() => removeServer(server.id)}
+                className="text-xs text-neutral-400 hover:text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+            <DraftInput
+              type="url"
+              value={server.url}
+              onCommit={(url) => updateServer(server.id, { url })}
+              check={(url) => isHttpUrl(url) ? undefined : 'URL must start with http:// or https://; the saved one is still used'}
+              className="w-full text-xs font-mono text-neutral-600 bg-neutral-50 border border-neutral-200 rounded-md px-2 py-1 focus:outline-none focus:border-neutral-400"
+            />
+            <DraftInput
+              // Sign-in and sign-out replace the token from outside the input
+              key={server.authorization_token || ''}
+              type="password"
+              value={server.authorization_token || ''}
+              // A hand-entered token replaces any OAuth sign-in
+              onCommit={(token) => updateServer(server.id, { authorization_token: token || undefined, oauth: undefined })}
+              placeholder="Bearer token (optional)"
+              className="w-full text-xs font-mono text-neutral-600 bg-neutral-50 border border-neutral-200 rounded-md px-2 py-1 focus:outline-none focus:border-neutral-400"
+            />
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-neutral-500 truncate">
+                {server.oauth
+                  ? `Signed in with OAuth${server.oauth.expiresAt ? ` · expires ${new Date(server.oauth.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : ''}`
+                  : 'OAuth: not signed in'}
+              </span>
+              {server.oauth ? (
+                <button
+                  onClick={() => updateServer(server.id, { authorization_token: undefined, oauth: undefined })}
+                  className="shrink-0 text-neutral-400 hover:text-red-600"
+                >
+                  Sign out
+                </button>
+              ) : (
+                <button
+                  onClick={() => signIn(server)}
+                  disabled={authorizingServerId !== null}
+                  className="shrink-0 text-neutral-500 hover:text-black disabled:opacity-50"
+                >
+                  {authorizingServerId === server.id ? 'Signing in…' : 'Sign in'}
+                </button>
+              )}
+            </div>
+            {oauthError?.serverId === server.id && (
+              <p className="text-xs text-red-600">{oauthError.message}</p>
+            )}
+            <label className="flex items-center gap-2 text-xs text-neutral-500">
+              <input
+                type="checkbox"
+                checked={server.autoApproveReadOnly === true}
+                onChange={(e) => updateServer(server.id, { autoApproveReadOnly: e.target.checked })}
+                className="accent-black"
+              />
+              Auto-approve read-only tools
+            </label>
+            {browsingServerId === server.id && (
+              <ToolBrowser
+                server={server}
+                onAllowedToolsChange={(allowedTools) => updateServer(server.id, { allowedTools })}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Add a server */}
+      {servers.length < MAX_MCP_SERVERS && (
+        <form onSubmit={addServer} className="mt-4 pt-4 border-t border-neutral-200 space-y-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name"
+            className="w-full text-sm text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+          />
+          <input
+            type="url"
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            placeholder="https://example.com/mcp"
+            className="w-full text-sm font-mono text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+          />
+          <input
+            type="password"
+            value={draft.authorization_token}
+            onChange={(e) => setDraft({ ...draft, authorization_token: e.target.value })}
+            placeholder="Bearer token (optional)"
+            className="w-full text-sm font-mono text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            type="submit"
+            className="w-full py-2 text-sm text-white bg-black hover:bg-neutral-800 rounded-lg transition-colors"
+          >
+            Add server
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
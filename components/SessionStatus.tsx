@@ -0,0 +1,31 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { SessionUser } from '@/lib/auth'
+
+/**
+ * Signed-in user and a sign-out button; renders nothing when auth is off
+ */
+export function SessionStatus() {
+  const [user, setUser] = useState<SessionUser | null>(null)
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(body => setUser(body.user ?? null))
+      .catch(error => console.error('Failed to load session:', error))
+  }, [])
+
+  if (!user) return null
+
+  return (
+    <form method="post" action="/api/auth/logout" className="flex items-center justify-between gap-2 border-t border-neutral-200 px-3 py-2">
+      <span className="text-xs text-neutral-500 truncate" title={user.email ?? user.id}>
+        {user.name ?? user.email ?? user.id}
+      </span>
+      <button type="submit" className="shrink-0 text-xs text-neutral-500 hover:text-black">
+        Sign out
+      </button>
+    </form>
+  )
+}
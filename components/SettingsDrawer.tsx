@@ -0,0 +1,291 @@
+'use client'
+
+import { useState } from 'react'
+import { isValidApiKey, maskApiKey } from '@/lib/api-key'
+import {
+  ALLOWED_MODELS,
+  type ChatSettings,
+  type ContextCompactionMode,
+  DEFAULT_CHAT_SETTINGS,
+  getModelOption,
+  MAX_COMPACT_THRESHOLD,
+  MAX_SYSTEM_PROMPT_LENGTH,
+  MIN_COMPACT_THRESHOLD,
+  MIN_MAX_TOKENS,
+  MIN_THINKING_BUDGET,
+} from '@/lib/chat-settings'
+
+/**
+ * Anthropic key saved in this browser, used instead of the server's key
+ */
+function ApiKeyField({ apiKey, onChange }: { apiKey: string; onChange: (apiKey: string) => void }) {
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState('')
+
+  const save = () => {
+    const value = draft.trim()
+    if (!isValidApiKey(value)) {
+      setError('That does not look like an API key')
+      return
+    }
+    onChange(value)
+    setDraft('')
+    setError('')
+  }
+
+  return (
+    <div className="space-y-1">
+      <span className="text-[10px] uppercase tracking-wider text-neutral-500">Anthropic API key</span>
+      {apiKey ? (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-mono text-black">{maskApiKey(apiKey)}</span>
+          <button type="button" onClick={() => onChange('')} className="text-xs text-neutral-500 hover:text-red-600">
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="sk-ant-…"
+            autoComplete="off"
+            className="flex-1 min-w-0 text-xs font-mono text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+          />
+          <button type="button" onClick={save} disabled={!draft.trim()} className="text-xs text-neutral-500 hover:text-black disabled:opacity-50">
+            Save
+          </button>
+        </div>
+      )}
+      {error && <p className="text-[10px] text-red-600">{error}</p>}
+      <p className="text-[10px] text-neutral-400">
+        Optional. Stored in this browser only and sent with each request instead of the server&apos;s key.
+      </p>
+    </div>
+  )
+}
+
+/**
+ * Drawer with the model settings of the active conversation
+ */
+export function SettingsDrawer({ settings, apiKey, disabled, onChange, onApiKeyChange, onClose }: {
+  settings: ChatSettings
+  apiKey: string
+  disabled: boolean
+  onChange: (settings: ChatSettings) => void
+  onApiKeyChange: (apiKey: string) => void
+  onClose: () => void
+}) {
+  const model = getModelOption(settings.model)
+  const maxOutputTokens = model?.maxOutputTokens ?? DEFAULT_CHAT_SETTINGS.maxTokens
+  const maxThinkingBudget = settings.maxTokens - 1
+
+  const update = (patch: Partial<ChatSettings>) => onChange({ ...settings, ...patch })
+
+  const changeModel = (modelId: string) => {
+    const option = getModelOption(modelId)
+    update({
+      model: modelId,
+      maxTokens: Math.min(settings.maxTokens, option?.maxOutputTokens ?? maxOutputTokens),
+      thinking: settings.thinking && option?.supportsThinking === true,
+    })
+  }
+
+  const toggleThinking = (thinking: boolean) => {
+    // The thinking budget must fit inside max tokens
+    const thinkingBudget = Math.max(settings.thinkingBudget, MIN_THINKING_BUDGET)
+    const maxTokens = Math.min(Math.max(settings.maxTokens, thinkingBudget + MIN_MAX_TOKENS), maxOutputTokens)
+    update({ thinking, maxTokens, thinkingBudget: Math.min(thinkingBudget, maxTokens - 1) })
+  }
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-30 w-80 bg-white border-l border-neutral-200 shadow-xl shadow-black/10 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-neutral-200">
+        <h2 className="text-sm font-bold tracking-wide uppercase text-black">Settings</h2>
+        <button onClick={onClose} className="text-neutral-400 hover:text-black" aria-label="Close">
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <fieldset disabled={disabled} className="flex-1 overflow-y-auto p-4 space-y-5 disabled:opacity-60">
+        <ApiKeyField apiKey={apiKey} onChange={onApiKeyChange} />
+
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-wider text-neutral-500">Model</span>
+          <select
+            value={settings.model}
+            onChange={(e) => changeModel(e.target.value)}
+            className="mt-1 w-full text-sm text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+          >
+            {ALLOWED_MODELS.map(model => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-wider text-neutral-500">Max tokens</span>
+          <input
+            type="number"
+            min={MIN_MAX_TOKENS}
+            max={maxOutputTokens}
+            step={256}
+            value={settings.maxTokens}
+            onChange={(e) => update({ maxTokens: Number(e.target.value) })}
+            onBlur={() => {
+              const minimum = settings.thinking ? MIN_THINKING_BUDGET + 1 : MIN_MAX_TOKENS
+              const maxTokens = Math.min(Math.max(Math.round(settings.maxTokens) || minimum, minimum), maxOutputTokens)
+              update({ maxTokens, thinkingBudget: Math.min(settings.thinkingBudget, maxTokens - 1) })
+            }}
+            className="mt-1 w-full text-sm font-mono text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+          />
+          <span className="text-[10px] text-neutral-400">{MIN_MAX_TOKENS}–{maxOutputTokens}</span>
+        </label>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.thinking}
+              disabled={!model?.supportsThinking}
+              onChange={(e) => toggleThinking(e.target.checked)}
+              className="accent-black"
+            />
+            <span className="text-sm text-black">Extended thinking</span>
+          </label>
+          {!model?.supportsThinking && (
+            <p className="text-[10px] text-neutral-400">Not available for this model.</p>
+          )}
+          {settings.thinking && (
+            <label className="block">
+              <span className="text-[10px] uppercase tracking-wider text-neutral-500">Thinking budget</span>
+              <input
+                type="number"
+                min={MIN_THINKING_BUDGET}
+                max={maxThinkingBudget}
+                step={256}
+                value={settings.thinkingBudget}
+                onChange={(e) => update({ thinkingBudget: Number(e.target.value) })}
+                onBlur={() => update({
+                  thinkingBudget: Math.min(
+                    Math.max(Math.round(settings.thinkingBudget) || MIN_THINKING_BUDGET, MIN_THINKING_BUDGET),
+                    maxThinkingBudget
+                  ),
+                })}
+                className="mt-1 w-full text-sm font-mono text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+              />
+              <span className="text-[10px] text-neutral-400">{MIN_THINKING_BUDGET}–{maxThinkingBudget}, counted in max tokens</span>
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.approveToolCalls}
+              onChange={(e) => update({ approveToolCalls: e.target.checked })}
+              className="accent-black"
+            />
+            <span className="text-sm text-black">Approve tool calls</span>
+          </label>
+          <p className="text-[10px] text-neutral-400">
+            Pause before each MCP tool call so you can approve, edit or deny it.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.mcpFallback}
+              onChange={(e) => update({ mcpFallback: e.target.checked })}
+              className="accent-black"
+            />
+            <span className="text-sm text-black">Answer without MCP if unreachable</span>
+          </label>
+          <p className="text-[10px] text-neutral-400">
+            When no MCP server responds after retrying, Claude answers without tools. The reply is marked.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-neutral-500">Context compaction</span>
+            <select
+              value={settings.compaction}
+              onChange={(e) => update({ compaction: e.target.value as ContextCompactionMode })}
+              className="mt-1 w-full text-sm text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400"
+            >
+              <option value="summarize">Summarize older turns</option>
+              <option value="trim">Drop older turns</option>
+              <option value="off">Off</option>
+            </select>
+          </label>
+          {settings.compaction !== 'off' && (
+            <label className="block">
+              <span className="flex justify-between text-[10px] uppercase tracking-wider text-neutral-500">
+                Compact at
+                <span className="font-mono normal-case">{settings.compactThreshold}% of the context window</span>
+              </span>
+              <input
+                type="range"
+                min={MIN_COMPACT_THRESHOLD}
+                max={MAX_COMPACT_THRESHOLD}
+                step={5}
+                value={settings.compactThreshold}
+                onChange={(e) => update({ compactThreshold: Number(e.target.value) })}
+                className="mt-2 w-full accent-black"
+              />
+            </label>
+          )}
+          <p className="text-[10px] text-neutral-400">
+            Old tool results are cleared first, then older turns are summarized or dropped. Recent turns are always kept.
+          </p>
+        </div>
+
+        <label className={`block ${settings.thinking ? 'opacity-50' : ''}`}>
+          <span className="flex justify-between text-[10px] uppercase tracking-wider text-neutral-500">
+            Temperature
+            <span className="font-mono normal-case">{settings.temperature.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.temperature}
+            disabled={settings.thinking}
+            onChange={(e) => update({ temperature: Number(e.target.value) })}
+            className="mt-2 w-full accent-black"
+          />
+          {settings.thinking && (
+            <span className="text-[10px] text-neutral-400">Fixed at 1 while extended thinking is on</span>
+          )}
+        </label>
+
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-wider text-neutral-500">System prompt</span>
+          <textarea
+            value={settings.systemPrompt}
+            maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+            onChange={(e) => update({ systemPrompt: e.target.value })}
+            rows={10}
+            className="mt-1 w-full text-xs text-black bg-white border border-neutral-200 rounded-md px-2 py-1.5 focus:outline-none focus:border-neutral-400 resize-y"
+          />
+        </label>
+
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_CHAT_SETTINGS)}
+          className="text-xs text-neutral-500 hover:text-black"
+        >
+          Reset to defaults
+        </button>
+      </fieldset>
+    </aside>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { McpToolInfo } from '@/lib/mcp-client'
+import { type McpServerConfig, withoutOAuthSession } from '@/lib/mcp-servers'
+
+/**
+ * Lists the tools a server exposes and lets the user pick which ones Claude may call
+ */
+export function ToolBrowser({ server, onAllowedToolsChange }: {
+  server: McpServerConfig
+  onAllowedToolsChange: (allowedTools: string[] | undefined) => void
+}) {
+  const [tools, setTools] = useState<McpToolInfo[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [expandedTool, setExpandedTool] = useState<string | null>(null)
+
+  const discoverTools = async () => {
+    setIsLoading(true)
+    setError('')
+    try {
+      const response = await fetch('/api/express-mcp/tools', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ server: withoutOAuthSession(server) }),
+      })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error || 'Failed to list tools')
+      setTools(body.tools)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to list tools')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Discover once when the browser is opened
+  useEffect(() => {
+    discoverTools()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [server.url, server.authorization_token])
+
+  const isAllowed = (name: string) => !server.allowedTools || server.allowedTools.includes(name)
+
+  const toggleTool = (name: string) => {
+    if (!tools) return
+    const allowed = tools.map(tool => tool.name).filter(toolName =>
+      toolName === name ? !isAllowed(toolName) : isAllowed(toolName)
+    )
+    // Every tool checked means no restriction
+    onAllowedToolsChange(allowed.length === tools.length ? undefined : allowed)
+  }
+
+  const allowedCount = tools ? tools.filter(tool => isAllowed(tool.name)).length : 0
+
+  return (
+    <div className="pt-2 border-t border-neutral-100">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] uppercase tracking-wider text-neutral-500">
+          {tools ? `Tools ${allowedCount}/${tools.length}` : 'Tools'}
+        </span>
+        <div className="flex gap-3 text-xs">
+          {tools && tools.length > 0 && (
+            <>
+              <button onClick={() => onAllowedToolsChange(undefined)} className="text-neutral-500 hover:text-black">
+                All
+              </button>
+              <button onClick={() => onAllowedToolsChange([])} className="text-neutral-500 hover:text-black">
+                None
+              </button>
+            </>
+          )}
+          <button onClick={discoverTools} disabled={isLoading} className="text-neutral-500 hover:text-black disabled:opacity-50">
+            {isLoading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+      {tools && tools.length === 0 && (
+        <p className="text-xs text-neutral-400">This server exposes no tools.</p>
+      )}
+
+      <div className="space-y-1">
+        {tools?.map(tool => (
+          <div key={tool.name}>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={isAllowed(tool.name)}
+                onChange={() => toggleTool(tool.name)}
+                className="accent-black"
+                aria-label={`Allow ${tool.name}`}
+              />
+              <button
+                onClick={() => setExpandedTool(expandedTool === tool.name ? null : tool.name)}
+                className="flex-1 text-left text-xs font-mono text-black truncate hover:underline"
+              >
+                {tool.name}
+              </button>
+              {tool.readOnly && (
+                <span className="text-[10px] text-neutral-400">read-only</span>
+              )}
+            </div>
+            {expandedTool === tool.name && (
+              <div className="ml-5 mt-1 mb-2 space-y-2">
+                {tool.description && (
+                  <p className="text-xs text-neutral-600 whitespace-pre-wrap">{tool.description}</p>
+                )}
+                <pre className="p-2 bg-neutral-900 rounded-md text-[10px] text-neutral-300 font-mono whitespace-pre-wrap overflow-x-auto">
+                  {JSON.stringify(tool.inputSchema, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+'use client'
+
+import { useState } from 'react'
+import type { ToolDecision } from '@/lib/tool-approvals'
+import type { ToolCall, ToolResultContent } from '@/lib/types'
+
+// Render a single piece of tool result content (text, JSON or image)
+export function ToolResultBlock({ block }: { block: ToolResultContent }) {
+  if (block.type === 'image') {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={`data:${block.mimeType};base64,${block.data}`}
+        alt="Tool result"
+        className="max-w-full rounded-md border border-neutral-700"
+      />
+    )
+  }
+
+  // Pretty-print text that is actually JSON
+  let text = block.text
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed !== null && typeof parsed === 'object') {
+      text = JSON.stringify(parsed, null, 2)
+    }
+  } catch {
+    // Plain text
+  }
+
+  return (
+    <pre className="text-xs text-neutral-300 font-mono whitespace-pre-wrap break-words">
+      {text}
+    </pre>
+  )
+}
+
+const STATUS_STYLES: Record<ToolCall['status'], { pill: string; dot: string; name: string; server: string }> = {
+  running: {
+    pill: 'bg-emerald-50 border border-emerald-200',
+    dot: 'bg-emerald-400 animate-pulse',
+    name: 'text-emerald-700',
+    server: 'text-emerald-500',
+  },
+  complete: {
+    pill: 'bg-emerald-50 border border-emerald-200 hover:bg-emerald-100',
+    dot: 'bg-emerald-500',
+    name: 'text-emerald-700',
+    server: 'text-emerald-500',
+  },
+  error: {
+    pill: 'bg-red-50 border border-red-200 hover:bg-red-100',
+    dot: 'bg-red-500',
+    name: 'text-red-700',
+    server: 'text-red-400',
+  },
+  awaiting_approval: {
+    pill: 'bg-amber-50 border border-amber-300 hover:bg-amber-100',
+    dot: 'bg-amber-400 animate-pulse',
+    name: 'text-amber-800',
+    server: 'text-amber-500',
+  },
+  denied: {
+    pill: 'bg-neutral-100 border border-neutral-200 hover:bg-neutral-200',
+    dot: 'bg-neutral-400',
+    name: 'text-neutral-500 line-through',
+    server: 'text-neutral-400',
+  },
+}
+
+// Approve, edit or deny a proposed tool call
+function ToolApprovalPanel({ tool, onDecision }: {
+  tool: ToolCall
+  onDecision: (decision: ToolDecision) => void
+}) {
+  const proposed = JSON.stringify(tool.input ?? {}, null, 2)
+  const [draft, setDraft] = useState(proposed)
+  const [error, setError] = useState('')
+
+  const approve = () => {
+    let input: Record<string, unknown> | undefined
+    if (draft !== proposed) {
+      try {
+        const parsed = JSON.parse(draft)
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error()
+        input = parsed
+      } catch {
+        setError('Input must be a JSON object')
+        return
+      }
+    }
+    onDecision({ action: 'approve', input })
+  }
+
+  return (
+    <div className="mt-2 ml-2 p-3 bg-neutral-900 rounded-lg max-w-md space-y-2">
+      <div className="text-[10px] uppercase tracking-wider text-amber-400">Approval required</div>
+      <textarea
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value)
+          setError('')
+        }}
+        rows={Math.min(12, draft.split('\n').length + 1)}
+        spellCheck={false}
+        className="w-full bg-neutral-800 text-xs text-neutral-200 font-mono rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-neutral-600 resize-y"
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={approve}
+          className="px-3 py-1 text-xs text-black bg-white hover:bg-neutral-200 rounded-md transition-colors"
+        >
+          {draft === proposed ? 'Approve' : 'Run edited'}
+        </button>
+        <button
+          onClick={() => onDecision({ action: 'deny' })}
+          className="px-3 py-1 text-xs text-neutral-300 hover:text-white border border-neutral-700 rounded-md transition-colors"
+        >
+          Deny
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Tool call pill component (like Uber example)
+export function ToolCallPill({ tool, isExpanded, onToggle, onDecision }: { 
+  tool: ToolCall
+  isExpanded: boolean
+  onToggle: () => void 
+  onDecision?: (decision: ToolDecision) => void
+}) {
+  const isError = tool.status === 'error'
+  const styles = STATUS_STYLES[tool.status] ?? STATUS_STYLES.complete
+  const awaitingApproval = tool.status === 'awaiting_approval' && !!onDecision
+
+  return (
+    <div className="inline-block my-1">
+      <button
+        onClick={onToggle}
+        title={tool.error}
+        className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm transition-all ${styles.pill}`}
+      >
+        <span className={`h-2 w-2 rounded-full ${styles.dot}`} />
+        <span className={`font-medium ${styles.name}`}>{tool.name}</span>
+        {tool.server && (
+          <span className={`text-xs ${styles.server}`}>{tool.server}</span>
+        )}
+        {tool.status === 'complete' && (
+          <svg className="h-4 w-4 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        )}
+        {isError && (
+          <svg className="h-4 w-4 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        )}
+        {tool.status === 'denied' && (
+          <span className="text-xs text-neutral-400">denied</span>
+        )}
+        {tool.status === 'running' && (
+          <div className="h-3 w-3 border-2 border-emerald-300 border-t-emerald-600 rounded-full animate-spin" />
+        )}
+      </button>
+
+      {/* Pending approval is always shown */}
+      {tool.status === 'awaiting_approval' && onDecision && (
+        <ToolApprovalPanel tool={tool} onDecision={onDecision} />
+      )}
+      
+      {/* Expanded details */}
+      {!awaitingApproval && isExpanded && (tool.input || tool.result) && (
+        <div className="mt-2 ml-2 p-3 bg-neutral-900 rounded-lg overflow-x-auto max-w-md space-y-3">
+          {tool.input && (
+            <div>
+              <div className="text-[10px] uppercase tracking-wider text-neutral-500 mb-1">Input</div>
+              <pre className="text-xs text-neutral-300 font-mono whitespace-pre-wrap">
+                {JSON.stringify(tool.input, null, 2)}
+              </pre>
+            </div>
+          )}
+          {tool.result && (
+            <div>
+              <div className={`text-[10px] uppercase tracking-wider mb-1 ${isError ? 'text-red-400' : 'text-neutral-500'}`}>
+                {isError ? 'Failed' : 'Result'}
+              </div>
+              {tool.result.length === 0 ? (
+                <p className="text-xs text-neutral-500 italic">No content returned</p>
+              ) : (
+                <div className="space-y-2">
+                  {tool.result.map((block, blockIndex) => (
+                    <ToolResultBlock key={blockIndex} block={block} />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import {
+  conversationFromTranscript,
+  toTranscript,
+  transcriptToMarkdown,
+  validateTranscript,
+} from '@/lib/transcript'
+import type { Conversation } from '@/lib/types'
+
+function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50) || 'conversation'
+}
+
+/**
+ * Export, import and share controls for the active conversation
+ */
+export function TranscriptActions({ conversation, disabled, onImport }: {
+  conversation: Conversation
+  disabled: boolean
+  onImport: (conversation: Conversation) => void
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [status, setStatus] = useState('')
+  const [shareUrl, setShareUrl] = useState('')
+
+  const hasMessages = conversation.tree.rootIds.length > 0
+  const filename = slugify(conversation.title)
+
+  const exportMarkdown = () => {
+    downloadFile(`${filename}.md`, transcriptToMarkdown(toTranscript(conversation)), 'text/markdown')
+  }
+
+  const exportJson = () => {
+    downloadFile(`${filename}.json`, JSON.stringify(toTranscript(conversation), null, 2), 'application/json')
+  }
+
+  const importJson = async (file: File) => {
+    try {
+      const validation = validateTranscript(JSON.parse(await file.text()))
+      if (!validation.ok) throw new Error(validation.error)
+      onImport(conversationFromTranscript(validation.transcript))
+      setStatus(`Imported "${validation.transcript.conversation.title}"`)
+    } catch (error) {
+      setStatus(error instanceof Error ? `Import failed: ${error.message}` : 'Import failed')
+    }
+  }
+
+  const share = async () => {
+    setStatus('Creating share link…')
+    setShareUrl('')
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toTranscript(conversation)),
+      })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error || 'Failed to share')
+
+      const url = new URL(body.url, window.location.origin).toString()
+      setShareUrl(url)
+      await navigator.clipboard.writeText(url).catch(() => {})
+      setStatus('Share link copied')
+    } catch (error) {
+      setStatus(error instanceof Error ? `Share failed: ${error.message}` : 'Share failed')
+    }
+  }
+
+  const buttonClassName = 'py-1.5 text-xs text-neutral-600 hover:text-black border border-neutral-200 hover:border-neutral-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+
+  return (
+    <div className="border-t border-neutral-200 p-3 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={exportMarkdown} disabled={!hasMessages || disabled} className={buttonClassName}>
+          Export .md
+        </button>
+        <button onClick={exportJson} disabled={!hasMessages || disabled} className={buttonClassName}>
+          Export .json
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClassName}>
+          Import .json
+        </button>
+        <button onClick={share} disabled={!hasMessages || disabled} className={buttonClassName}>
+          Share link
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) importJson(file)
+          e.target.value = ''
+        }}
+      />
+      {status && <p className="text-[10px] text-neutral-500">{status}</p>}
+      {shareUrl && (
+        <a href={shareUrl} target="_blank" rel="noopener noreferrer" className="block text-[10px] font-mono text-neutral-500 underline truncate">
+          {shareUrl}
+        </a>
+      )}
+    </div>
+  )
+}
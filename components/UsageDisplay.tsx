@@ -0,0 +1,113 @@
+import { estimateCost, formatCost } from '@/lib/pricing'
+import type { Message, TurnUsage } from '@/lib/types'
+
+const STOP_REASON_WARNINGS: Record<string, string> = {
+  max_tokens: 'Truncated at max_tokens',
+  refusal: 'Claude declined to respond',
+  pause_turn: 'Paused by the API before finishing',
+}
+
+function formatTokens(count: number): string {
+  return count.toLocaleString()
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+/**
+ * Token counts, tool calls, timings and stop reason of one assistant turn
+ */
+export function MessageUsage({ message }: { message: Message }) {
+  if (!message.usage) return null
+
+  const { usage } = message
+  const cost = estimateCost(usage)
+  const toolCallCount = message.toolCalls?.length ?? 0
+  const cacheTokens = usage.cacheReadInputTokens + usage.cacheCreationInputTokens
+  const warning = message.stopReason ? STOP_REASON_WARNINGS[message.stopReason] : undefined
+  const timings = message.timings
+  const toolTimings = timings?.toolCalls.map(call => `${call.name}: ${formatDuration(call.durationMs)}`).join('\n')
+
+  return (
+    <div className="mt-3 pt-2 border-t border-neutral-100 space-y-1">
+      {warning && (
+        <div className="text-xs text-amber-600">⚠ {warning}</div>
+      )}
+      <div className="flex flex-wrap gap-x-3 text-[10px] text-neutral-400 font-mono">
+        <span>{formatTokens(usage.inputTokens)} in</span>
+        <span>{formatTokens(usage.outputTokens)} out</span>
+        {cacheTokens > 0 && <span>{formatTokens(cacheTokens)} cache</span>}
+        {toolCallCount > 0 && <span>{toolCallCount} tool {toolCallCount === 1 ? 'call' : 'calls'}</span>}
+        {cost !== undefined && <span>~{formatCost(cost)}</span>}
+        {timings && (
+          <span title={toolTimings || undefined}>
+            {timings.firstTokenMs !== undefined && `${formatDuration(timings.firstTokenMs)} to first token, `}
+            {formatDuration(timings.totalMs)} total
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Running totals for a whole conversation
+ */
+export function ConversationUsage({ messages }: { messages: Message[] }) {
+  const turns = messages.filter((message): message is Message & { usage: TurnUsage } => !!message.usage)
+  if (turns.length === 0) return null
+
+  const inputTokens = turns.reduce((sum, turn) => sum + turn.usage.inputTokens + turn.usage.cacheReadInputTokens + turn.usage.cacheCreationInputTokens, 0)
+  const outputTokens = turns.reduce((sum, turn) => sum + turn.usage.outputTokens, 0)
+  const toolCallCount = messages.reduce((sum, message) => sum + (message.toolCalls?.length ?? 0), 0)
+  const costs = turns.map(turn => estimateCost(turn.usage))
+  const totalCost = costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0)
+  const hasUnpricedTurns = costs.some(cost => cost === undefined)
+
+  return (
+    <div className="mt-2 flex justify-center flex-wrap gap-x-3 text-[10px] text-neutral-400 font-mono">
+      <span>Conversation:</span>
+      <span>{formatTokens(inputTokens)} in</span>
+      <span>{formatTokens(outputTokens)} out</span>
+      <span>{toolCallCount} tool {toolCallCount === 1 ? 'call' : 'calls'}</span>
+      <span>~{formatCost(totalCost)}{hasUnpricedTurns && '+'}</span>
+    </div>
+  )
+}
+
+/**
+ * How full the context window was when the latest turn was sent
+ */
+export function ContextMeter({ messages, compactThreshold }: {
+  messages: Message[]
+  // Unset when compaction is off
+  compactThreshold?: number
+}) {
+  const context = messages.findLast(message => message.context)?.context
+  if (!context) return null
+
+  const percent = Math.min((context.tokens / context.contextWindow) * 100, 100)
+  const pastThreshold = compactThreshold !== undefined && percent >= compactThreshold
+  const barColor = percent >= 90 ? 'bg-red-500' : pastThreshold ? 'bg-amber-500' : 'bg-neutral-500'
+
+  return (
+    <div
+      className="mt-2 flex justify-center items-center gap-2 text-[10px] text-neutral-400 font-mono"
+      title={compactThreshold !== undefined
+        ? `Older turns are compacted once the context passes ${compactThreshold}%`
+        : 'Compaction is off'}
+    >
+      <span>Context:</span>
+      <div className="relative h-1.5 w-32 rounded-full bg-neutral-200 overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+        {compactThreshold !== undefined && (
+          <div className="absolute inset-y-0 w-px bg-neutral-400" style={{ left: `${compactThreshold}%` }} />
+        )}
+      </div>
+      <span>
+        {context.estimated && '~'}{formatTokens(context.tokens)} / {formatTokens(context.contextWindow)} ({Math.round(percent)}%)
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import { toRequestContent } from './attachments'
+import type { ChatStreamEvent } from './stream-events'
+import type { ContentBlock, Message, ToolResultContent, TurnUsage } from './types'
+
+interface ContentBlockStart {
+  type: string
+  name?: string
+  id?: string
+  server_name?: string
+  tool_use_id?: string
+  is_error?: boolean
+  content?: unknown
+}
+
+/**
+ * One assistant response, as accumulated from the stream
+ */
+export interface AssistantTurn {
+  content: ContentBlock[]
+  usage: TurnUsage
+  stopReason: string | null
+}
+
+export interface StreamTurnOptions {
+  model: string
+  send: (event: ChatStreamEvent) => void
+  // Map a tool name as seen by Claude to the name and server shown to the user
+  describeTool?: (name: string) => { name: string; server?: string }
+}
+
+/**
+ * Normalize MCP tool result content.
+ * The API may send a plain string or an array of content blocks.
+ */
+export function normalizeToolResultContent(content: unknown): ToolResultContent[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }]
+  }
+  if (!Array.isArray(content)) return []
+
+  return content.flatMap((item): ToolResultContent[] => {
+    if (item?.type === 'text' && typeof item.text === 'string') {
+      return [{ type: 'text', text: item.text }]
+    }
+    if (item?.type === 'image') {
+      // MCP style ({ data, mimeType }) or Anthropic style ({ source })
+      const data = item.data ?? item.source?.data
+      const mimeType = item.mimeType ?? item.source?.media_type
+      if (typeof data === 'string' && typeof mimeType === 'string') {
+        return [{ type: 'image', data, mimeType }]
+      }
+    }
+    return [{ type: 'text', text: JSON.stringify(item) }]
+  })
+}
+
+function isContentBlockArray(value: unknown): value is ContentBlock[] {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every(block => block && typeof block === 'object' && typeof block.type === 'string')
+}
+
+/**
+ * Which tool blocks a request may carry: client `tool_use`/`tool_result`
+ * when the server runs the tools, MCP connector blocks when Anthropic does,
+ * or neither when the request has no tools
+ */
+export type ReplayToolMode = 'client' | 'connector' | 'none'
+
+const CLIENT_TOOL_BLOCKS = ['tool_use', 'tool_result']
+const CONNECTOR_TOOL_BLOCKS = ['mcp_tool_use', 'mcp_tool_result']
+
+/**
+ * Plain-text form of a stored block; empty for blocks with no text
+ */
+export function blockText(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return String(block.text ?? '')
+    case 'tool_use':
+    case 'mcp_tool_use':
+      return `[Called ${block.name} with ${JSON.stringify(block.input ?? {})}]`
+    case 'tool_result':
+    case 'mcp_tool_result': {
+      const content = Array.isArray(block.content) ? block.content : [block.content]
+      const text = content.map(item => typeof item === 'string' ? item : item?.type === 'text' ? item.text : '[image]').join('\n')
+      return `[Tool result${block.is_error ? ' (error)' : ''}: ${text}]`
+    }
+    default:
+      return ''
+  }
+}
+
+/**
+ * Replace tool blocks the request cannot carry with text. Approval mode can
+ * be toggled mid-chat, and the API rejects client tool calls without tool
+ * definitions and MCP blocks without the connector beta.
+ */
+function replayableBlocks(blocks: ContentBlock[], toolMode: ReplayToolMode): ContentBlock[] {
+  const unsupported = [
+    ...(toolMode === 'client' ? [] : CLIENT_TOOL_BLOCKS),
+    ...(toolMode === 'connector' ? [] : CONNECTOR_TOOL_BLOCKS),
+  ]
+  return blocks.flatMap((block): ContentBlock[] => {
+    if (!unsupported.includes(block.type)) return [block]
+    const text = blockText(block)
+    return text ? [{ type: 'text', text }] : []
+  })
+}
+
+/**
+ * Split stored assistant blocks into API messages.
+ * Client-executed tools store their `tool_result` blocks inline, which the API
+ * expects in a user message between the assistant turns.
+ */
+function expandAssistantBlocks(blocks: ContentBlock[]): Anthropic.MessageParam[] {
+  const expanded: Anthropic.MessageParam[] = []
+  let current: ContentBlock[] = []
+  let currentRole: 'user' | 'assistant' = 'assistant'
+
+  for (const block of blocks) {
+    const role = block.type === 'tool_result' ? 'user' : 'assistant'
+    if (role !== currentRole && current.length > 0) {
+      expanded.push({ role: currentRole, content: current as unknown as Anthropic.ContentBlockParam[] })
+      current = []
+    }
+    currentRole = role
+    current.push(block)
+  }
+  if (current.length > 0) {
+    expanded.push({ role: currentRole, content: current as unknown as Anthropic.ContentBlockParam[] })
+  }
+  return expanded
+}
+
+/**
+ * Convert chat messages to Anthropic format.
+ * Assistant turns replay their structured blocks so Claude sees earlier tool
+ * calls and results; empty turns (e.g. failed responses) are skipped.
+ * Tool blocks `toolMode` does not allow are replayed as text.
+ */
+export function toAnthropicMessages(messages: Message[], toolMode: ReplayToolMode): Anthropic.MessageParam[] {
+  return messages.flatMap((msg): Anthropic.MessageParam[] => {
+    if (msg.role === 'assistant' && isContentBlockArray(msg.blocks)) {
+      return expandAssistantBlocks(replayableBlocks(msg.blocks, toolMode))
+    }
+    if (msg.attachments?.length) {
+      return [{ role: msg.role, content: toRequestContent(msg) as unknown as Anthropic.ContentBlockParam[] }]
+    }
+    if (!msg.content) return []
+    return [{ role: msg.role, content: msg.content }]
+  })
+}
+
+/**
+ * Token counts of two requests to the same model, added up
+ */
+export function addUsage(total: TurnUsage, usage: TurnUsage): TurnUsage {
+  return {
+    ...total,
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cacheCreationInputTokens: total.cacheCreationInputTokens + usage.cacheCreationInputTokens,
+    cacheReadInputTokens: total.cacheReadInputTokens + usage.cacheReadInputTokens,
+  }
+}
+
+/**
+ * Forward one streamed assistant response to the client as chat events and
+ * accumulate its content blocks and usage
+ */
+export async function streamAssistantTurn(
+  events: AsyncIterable<Anthropic.MessageStreamEvent>,
+  { model, send, describeTool }: StreamTurnOptions
+): Promise<AssistantTurn> {
+  let currentToolName = ''
+  let currentToolInput = ''
+  let currentToolId = ''
+  let currentToolServer = ''
+  // Assistant content blocks accumulated from the stream, by index
+  const contentBlocks: ContentBlock[] = []
+  const blockInputJson: string[] = []
+  const usage: TurnUsage = {
+    model,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  }
+  let stopReason: string | null = null
+
+  for await (const event of events) {
+    if (event.type === 'message_start') {
+      const startUsage = event.message.usage
+      usage.inputTokens = startUsage.input_tokens
+      usage.outputTokens = startUsage.output_tokens
+      usage.cacheCreationInputTokens = startUsage.cache_creation_input_tokens ?? 0
+      usage.cacheReadInputTokens = startUsage.cache_read_input_tokens ?? 0
+    } else if (event.type === 'message_delta') {
+      // Output tokens are cumulative
+      usage.outputTokens = event.usage.output_tokens
+      stopReason = event.delta.stop_reason
+    } else if (event.type === 'content_block_start') {
+      const block = event.content_block as unknown as ContentBlockStart
+      contentBlocks[event.index] = { ...block }
+      
+      // MCP tool results arrive complete in the start event
+      if (block.type === 'mcp_tool_result') {
+        send({
+          type: 'tool_result',
+          tool_use_id: block.tool_use_id || '',
+          is_error: block.is_error === true,
+          content: normalizeToolResultContent(block.content),
+        })
+      // Handle both regular tool_use and MCP tool calls
+      } else if ((block.type === 'tool_use' || block.type === 'mcp_tool_use') && block.name) {
+        const described = describeTool?.(block.name)
+        currentToolName = described?.name ?? block.name
+        currentToolId = block.id || ''
+        currentToolServer = described?.server ?? block.server_name ?? ''
+        currentToolInput = ''
+        // Send tool start event
+        send({
+          type: 'tool_start',
+          name: currentToolName,
+          id: currentToolId,
+          server: currentToolServer || undefined,
+        })
+      }
+    } else if (event.type === 'content_block_delta') {
+      const delta = event.delta as {
+        type: string
+        text?: string
+        partial_json?: string
+        thinking?: string
+        signature?: string
+      }
+      const snapshot = contentBlocks[event.index]
+      if (delta.type === 'text_delta' && delta.text) {
+        if (snapshot?.type === 'text') {
+          snapshot.text = `${snapshot.text ?? ''}${delta.text}`
+        }
+        send({ type: 'text', content: delta.text })
+      } else if (delta.type === 'thinking_delta' && delta.thinking) {
+        if (snapshot?.type === 'thinking') {
+          snapshot.thinking = `${snapshot.thinking ?? ''}${delta.thinking}`
+        }
+        send({ type: 'thinking', content: delta.thinking })
+      } else if (delta.type === 'signature_delta' && delta.signature) {
+        // Required to send thinking blocks back on later turns
+        if (snapshot?.type === 'thinking') {
+          snapshot.signature = delta.signature
+        }
+      } else if (delta.type === 'input_json_delta' && delta.partial_json) {
+        currentToolInput += delta.partial_json
+        blockInputJson[event.index] = (blockInputJson[event.index] ?? '') + delta.partial_json
+      }
+    } else if (event.type === 'content_block_stop') {
+      const snapshot = contentBlocks[event.index]
+      const inputJson = blockInputJson[event.index]
+      if (snapshot && inputJson) {
+        try {
+          snapshot.input = JSON.parse(inputJson)
+        } catch {
+          snapshot.input = {}
+        }
+      }
+
+      if (currentToolName) {
+        // Send tool complete event with input
+        let parsedInput: Record<string, unknown> = {}
+        try {
+          parsedInput = JSON.parse(currentToolInput)
+        } catch {
+          parsedInput = currentToolInput ? { raw: currentToolInput } : {}
+        }
+        send({
+          type: 'tool_complete',
+          name: currentToolName,
+          id: currentToolId,
+          server: currentToolServer || undefined,
+          input: parsedInput,
+        })
+        currentToolName = ''
+        currentToolInput = ''
+        currentToolId = ''
+        currentToolServer = ''
+      }
+    }
+  }
+
+  return {
+    content: contentBlocks.filter(block => block && !(block.type === 'text' && !block.text)),
+    usage,
+    stopReason,
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Machine-readable reasons an API request was rejected.
+ * Returned as `code` next to the human-readable `error` message.
+ */
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'payload_too_large'
+  | 'invalid_messages'
+  | 'invalid_settings'
+  | 'invalid_servers'
+  | 'mcp_url_blocked'
+  | 'rate_limited'
+  | 'unauthorized'
+  | 'missing_api_key'
+  | 'invalid_api_key'
+  | 'internal_error'
+
+export interface ApiErrorBody {
+  error: string
+  code: ApiErrorCode
+  // Seconds until the request may be retried, for rate_limited
+  retryAfter?: number
+  // Chat request id, to find the request in the server logs
+  requestId?: string
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+export function apiError(
+  code: ApiErrorCode,
+  error: string,
+  status: number,
+  extra: { retryAfter?: number; requestId?: string } = {}
+): Response {
+  const body: ApiErrorBody = { error, code, ...extra }
+  const headers: Record<string, string> = {}
+  if (extra.retryAfter !== undefined) headers['Retry-After'] = String(extra.retryAfter)
+  if (extra.requestId) headers[REQUEST_ID_HEADER] = extra.requestId
+  return Response.json(body, { status, headers })
+}
+
+/**
+ * Message shown in the chat when the route rejects a request
+ */
+export function describeApiError(body: Partial<ApiErrorBody> | null): string {
+  if (!body?.error) return 'Failed to get response'
+  if (body.code === 'rate_limited' && body.retryAfter) {
+    return `${body.error} Try again in ${body.retryAfter}s. (rate_limited)`
+  }
+  return body.code ? `${body.error} (${body.code})` : body.error
+}
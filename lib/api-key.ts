@@ -0,0 +1,37 @@
+/**
+ * Optional user-supplied Anthropic API key.
+ * It is kept in the browser's localStorage and sent with each chat request in
+ * a header; the server uses it instead of ANTHROPIC_API_KEY and never stores it.
+ */
+
+export const API_KEY_HEADER = 'x-anthropic-api-key'
+
+const STORAGE_KEY = 'express-mcp-anthropic-key'
+const API_KEY_PATTERN = /^[\x21-\x7e]{20,256}$/
+
+export function isValidApiKey(value: string): boolean {
+  return API_KEY_PATTERN.test(value)
+}
+
+/**
+ * Load the saved key from localStorage (browser only)
+ */
+export function loadApiKey(): string {
+  if (typeof window === 'undefined') return ''
+  return window.localStorage.getItem(STORAGE_KEY) ?? ''
+}
+
+export function saveApiKey(apiKey: string) {
+  if (apiKey) {
+    window.localStorage.setItem(STORAGE_KEY, apiKey)
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY)
+  }
+}
+
+/**
+ * Show only enough of a key to recognise it
+ */
+export function maskApiKey(apiKey: string): string {
+  return apiKey.length > 12 ? `${apiKey.slice(0, 7)}…${apiKey.slice(-4)}` : '…'
+}
@@ -0,0 +1,241 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import {
+  addUsage,
+  type AssistantTurn,
+  normalizeToolResultContent,
+  streamAssistantTurn,
+} from './anthropic-stream'
+import type { MessageStreamClient } from './chat-turn'
+import { connectMcpClient, listClientTools, McpConnectionError, type McpToolInfo } from './mcp-client'
+import type { McpServerConfig } from './mcp-servers'
+import type { ChatStreamEvent } from './stream-events'
+import { APPROVAL_TIMEOUT_MS, waitForToolDecision, type ToolDecision } from './tool-approvals'
+import type { ContentBlock, ToolResultContent } from './types'
+
+// Upper bound on model calls per user message
+export const MAX_AGENT_STEPS = 10
+
+// An approval left unanswered is denied this long before the turn's
+// deadline, so Claude can still reply to the denial
+const DENIAL_REPLY_MS = 30_000
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/
+
+export interface ToolBinding {
+  server: McpServerConfig
+  client: Client
+  tool: McpToolInfo
+}
+
+/**
+ * MCP servers connected for one chat turn, and their tools as offered to
+ * Claude, by the name Claude sees
+ */
+export interface ToolSession {
+  tools: Anthropic.Tool[]
+  bindings: Map<string, ToolBinding>
+  close(): Promise<void>
+}
+
+export interface ApprovalAgentOptions {
+  anthropic: MessageStreamClient
+  params: Anthropic.MessageCreateParamsNonStreaming
+  headers: Record<string, string>
+  session: ToolSession
+  requestId: string
+  send: (event: ChatStreamEvent) => void
+  signal: AbortSignal
+  // When the turn must end, in milliseconds since the epoch
+  deadline?: number
+}
+
+/**
+ * Name each tool for Claude. Tool names are kept when they are valid and
+ * unique across servers, and prefixed with the server name otherwise.
+ */
+function bindTools(connections: { server: McpServerConfig; client: Client; tools: McpToolInfo[] }[]) {
+  const nameCounts = new Map<string, number>()
+  for (const { tools } of connections) {
+    for (const tool of tools) nameCounts.set(tool.name, (nameCounts.get(tool.name) ?? 0) + 1)
+  }
+
+  const bindings = new Map<string, ToolBinding>()
+  for (const { server, client, tools } of connections) {
+    for (const tool of tools) {
+      if (server.allowedTools && !server.allowedTools.includes(tool.name)) continue
+
+      let alias = tool.name
+      if (nameCounts.get(tool.name) !== 1 || !TOOL_NAME_PATTERN.test(alias)) {
+        alias = `${server.name}_${tool.name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 60)
+      }
+      for (let suffix = 2; bindings.has(alias); suffix++) {
+        alias = `${alias.slice(0, 60)}_${suffix}`
+      }
+      bindings.set(alias, { server, client, tool })
+    }
+  }
+  return bindings
+}
+
+function toAnthropicToolResultContent(content: ToolResultContent[]) {
+  return content.map(block => block.type === 'text'
+    ? { type: 'text', text: block.text }
+    : { type: 'image', source: { type: 'base64', media_type: block.mimeType, data: block.data } }
+  )
+}
+
+/**
+ * Connect to every server and list its tools. The caller closes the session;
+ * if any server cannot be reached, the others are closed and this throws.
+ */
+export async function openToolSession(servers: McpServerConfig[]): Promise<ToolSession> {
+  const clients: Client[] = []
+  const close = async () => {
+    await Promise.all(clients.map(client => client.close().catch(() => {})))
+  }
+
+  try {
+    const connections = await Promise.all(servers.map(async server => {
+      try {
+        const client = await connectMcpClient(server)
+        clients.push(client)
+        return { server, client, tools: await listClientTools(client) }
+      } catch (error) {
+        throw new McpConnectionError(server.name, error)
+      }
+    }))
+
+    const bindings = bindTools(connections)
+    const tools: Anthropic.Tool[] = [...bindings].map(([alias, { tool }]) => ({
+      name: alias,
+      description: tool.description,
+      input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+    }))
+    return { tools, bindings, close }
+  } catch (error) {
+    await close()
+    throw error
+  }
+}
+
+/**
+ * Run the agent loop with the session's MCP tools, executed by this server.
+ * Every tool call waits for the user's decision unless the server
+ * auto-approves read-only tools.
+ */
+export async function runApprovalAgent({
+  anthropic,
+  params,
+  headers,
+  session: { tools, bindings },
+  requestId,
+  send,
+  signal,
+  deadline = Infinity,
+}: ApprovalAgentOptions): Promise<AssistantTurn> {
+  const describeTool = (alias: string) => {
+    const binding = bindings.get(alias)
+    return binding ? { name: binding.tool.name, server: binding.server.name } : { name: alias }
+  }
+
+  const handleToolUse = async (block: ContentBlock): Promise<ContentBlock> => {
+    const toolUseId = String(block.id)
+    const proposedInput = (block.input ?? {}) as Record<string, unknown>
+    const binding = bindings.get(String(block.name))
+
+    const toolResult = (content: ToolResultContent[], isError: boolean): ContentBlock => {
+      send({ type: 'tool_result', tool_use_id: toolUseId, is_error: isError, content })
+      return {
+        type: 'tool_result',
+        tool_use_id: toolUseId,
+        is_error: isError,
+        content: toAnthropicToolResultContent(content),
+      }
+    }
+
+    if (!binding) {
+      return toolResult([{ type: 'text', text: `Unknown tool "${block.name}"` }], true)
+    }
+
+    let decision: ToolDecision
+    if (binding.server.autoApproveReadOnly && binding.tool.readOnly) {
+      decision = { action: 'approve' }
+    } else {
+      send({ type: 'tool_approval_required', request_id: requestId, tool_use_id: toolUseId, input: proposedInput })
+      const timeoutMs = Math.max(0, Math.min(APPROVAL_TIMEOUT_MS, deadline - DENIAL_REPLY_MS - Date.now()))
+      decision = await waitForToolDecision(requestId, toolUseId, signal, timeoutMs)
+    }
+
+    if (decision.action === 'deny') {
+      send({ type: 'tool_decision', tool_use_id: toolUseId, approved: false, reason: decision.reason })
+      const reason = decision.reason ? `: ${decision.reason}` : ''
+      return {
+        type: 'tool_result',
+        tool_use_id: toolUseId,
+        is_error: true,
+        content: `The user denied this tool call${reason}`,
+      }
+    }
+
+    const input = decision.input ?? proposedInput
+    send({ type: 'tool_decision', tool_use_id: toolUseId, approved: true, input })
+
+    const content: ToolResultContent[] = []
+    if (decision.input) {
+      // Tell Claude the call ran with different arguments than it proposed
+      content.push({ type: 'text', text: `Note: the user edited the input before running this tool. Actual input: ${JSON.stringify(input)}` })
+    }
+
+    try {
+      const result = await binding.client.callTool(
+        { name: binding.tool.name, arguments: input },
+        undefined,
+        { signal }
+      )
+      content.push(...normalizeToolResultContent(result.content))
+      return toolResult(content, result.isError === true)
+    } catch (error) {
+      if (signal.aborted) throw error
+      content.push({ type: 'text', text: error instanceof Error ? error.message : 'Tool call failed' })
+      return toolResult(content, true)
+    }
+  }
+
+  let messages = params.messages
+  const content: ContentBlock[] = []
+  let usage: AssistantTurn['usage'] = {
+    model: params.model,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  }
+  let stopReason: string | null = null
+
+  for (let step = 0; step < MAX_AGENT_STEPS; step++) {
+    const stream = anthropic.messages.stream({ ...params, messages, tools }, { headers, signal })
+    const turn = await streamAssistantTurn(stream, { model: params.model, send, describeTool })
+
+    content.push(...turn.content)
+    usage = addUsage(usage, turn.usage)
+    stopReason = turn.stopReason
+
+    if (turn.stopReason !== 'tool_use') break
+
+    // Decisions are taken one tool call at a time, in order
+    const results: ContentBlock[] = []
+    for (const block of turn.content.filter(block => block.type === 'tool_use')) {
+      results.push(await handleToolUse(block))
+    }
+
+    content.push(...results)
+    messages = [
+      ...messages,
+      { role: 'assistant', content: turn.content as unknown as Anthropic.ContentBlockParam[] },
+      { role: 'user', content: results as unknown as Anthropic.ContentBlockParam[] },
+    ]
+  }
+
+  return { content, usage, stopReason }
+}
@@ -0,0 +1,171 @@
+import type { ContentBlock, Message, MessageAttachment } from './types'
+
+/**
+ * Files that can be attached to a user message, sent to Claude as base64
+ * `image` and `document` content blocks
+ */
+
+export const IMAGE_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+export const DOCUMENT_MEDIA_TYPES = ['application/pdf']
+// For the file picker's `accept` attribute
+export const ATTACHMENT_ACCEPT = [...IMAGE_MEDIA_TYPES, ...DOCUMENT_MEDIA_TYPES].join(',')
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+// The API limits images to 5 MB once base64-encoded, which is 4/3 of the file size
+export const MAX_IMAGE_BASE64_BYTES = 5 * 1024 * 1024
+export const MAX_IMAGE_BYTES = Math.floor((MAX_IMAGE_BASE64_BYTES * 3) / 4)
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024
+// All of a message's files together, so the newest message always fits in
+// MAX_REQUEST_ATTACHMENT_BYTES once base64-encoded
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 15 * 1024 * 1024
+// Attachments are resent with every turn; past this much base64 in one
+// request, older ones are left out so the 32 MB request limit is not hit
+export const MAX_REQUEST_ATTACHMENT_BYTES = 20 * 1024 * 1024
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/
+
+export type AttachmentResult =
+  | { ok: true; attachment: MessageAttachment }
+  | { ok: false; error: string }
+
+export function attachmentKind(mediaType: string): MessageAttachment['kind'] | undefined {
+  if (IMAGE_MEDIA_TYPES.includes(mediaType)) return 'image'
+  if (DOCUMENT_MEDIA_TYPES.includes(mediaType)) return 'document'
+  return undefined
+}
+
+function maxBytes(kind: MessageAttachment['kind']): number {
+  return kind === 'image' ? MAX_IMAGE_BYTES : MAX_DOCUMENT_BYTES
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Decoded size of base64 data
+function base64Bytes(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0
+  return Math.floor((data.length * 3) / 4) - padding
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Check a file's type and size and read it as an attachment
+ */
+export async function readAttachment(file: File): Promise<AttachmentResult> {
+  const kind = attachmentKind(file.type)
+  if (!kind) {
+    return { ok: false, error: `${file.name}: only PNG, JPEG, GIF, WebP and PDF files can be attached` }
+  }
+  if (file.size > maxBytes(kind)) {
+    return { ok: false, error: `${file.name} is larger than ${formatBytes(maxBytes(kind))}` }
+  }
+
+  return {
+    ok: true,
+    attachment: {
+      id: crypto.randomUUID(),
+      kind,
+      name: file.name || (kind === 'image' ? 'Pasted image' : 'Document'),
+      mediaType: file.type,
+      data: toBase64(await file.arrayBuffer()),
+      size: file.size,
+    },
+  }
+}
+
+export function attachmentDataUrl(attachment: MessageAttachment): string {
+  return `data:${attachment.mediaType};base64,${attachment.data}`
+}
+
+/**
+ * Anthropic content block for an attachment
+ */
+export function attachmentToBlock(attachment: MessageAttachment): ContentBlock {
+  const source = { type: 'base64', media_type: attachment.mediaType, data: attachment.data }
+  return attachment.kind === 'image'
+    ? { type: 'image', source }
+    : { type: 'document', source, title: attachment.name }
+}
+
+/**
+ * Content of a user message as sent to the chat route: a string, or a block
+ * array when it has attachments. Attachments come first, as Claude prefers.
+ * With `omitAttachments`, they are only named.
+ */
+export function toRequestContent(message: Message, { omitAttachments = false } = {}): string | ContentBlock[] {
+  if (!message.attachments?.length) return message.content
+  if (omitAttachments) {
+    const names = message.attachments.map(attachment => attachment.name).join(', ')
+    return [`[Attachments left out to keep the request small: ${names}]`, message.content].filter(Boolean).join('\n\n')
+  }
+  return [
+    ...message.attachments.map(attachmentToBlock),
+    ...(message.content ? [{ type: 'text', text: message.content }] : []),
+  ]
+}
+
+/**
+ * Validate an `image` or `document` block received by the chat route
+ */
+export function parseAttachmentBlock(block: ContentBlock, id: string): AttachmentResult {
+  const source = block.source as Record<string, unknown> | undefined
+  if (!source || typeof source !== 'object' || source.type !== 'base64') {
+    return { ok: false, error: `${block.type} blocks must have a base64 source` }
+  }
+
+  const { media_type: mediaType, data } = source
+  const kind = typeof mediaType === 'string' ? attachmentKind(mediaType) : undefined
+  if (!kind || kind !== block.type) {
+    const allowed = block.type === 'image' ? IMAGE_MEDIA_TYPES : DOCUMENT_MEDIA_TYPES
+    return { ok: false, error: `${block.type} media_type must be one of: ${allowed.join(', ')}` }
+  }
+  if (typeof data !== 'string' || data.length === 0 || !BASE64_PATTERN.test(data)) {
+    return { ok: false, error: `${block.type} data must be base64` }
+  }
+
+  const size = base64Bytes(data)
+  if (size > maxBytes(kind) || (kind === 'image' && data.length > MAX_IMAGE_BASE64_BYTES)) {
+    return { ok: false, error: `${block.type} is larger than ${formatBytes(maxBytes(kind))}` }
+  }
+
+  const title = typeof block.title === 'string' ? block.title.slice(0, 200) : undefined
+  return {
+    ok: true,
+    attachment: { id, kind, name: title || kind, mediaType: mediaType as string, data, size },
+  }
+}
+
+/**
+ * A message as sent to the chat route, with its attachments as blocks
+ */
+export type RequestMessage = Omit<Message, 'content' | 'attachments'> & { content: string | ContentBlock[] }
+
+/**
+ * Messages as sent to the chat route. The newest message keeps its
+ * attachments; older ones keep theirs while the total stays under
+ * MAX_REQUEST_ATTACHMENT_BYTES, and the oldest are left out first.
+ */
+export function toRequestMessages(messages: Message[]): RequestMessage[] {
+  const requestMessages: RequestMessage[] = []
+  let remaining = MAX_REQUEST_ATTACHMENT_BYTES
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const { attachments = [], ...message } = messages[index]
+    const bytes = attachments.reduce((sum, attachment) => sum + attachment.data.length, 0)
+    const omitAttachments = index < messages.length - 1 && bytes > remaining
+    if (!omitAttachments) remaining -= bytes
+    requestMessages.unshift({ ...message, content: toRequestContent(messages[index], { omitAttachments }) })
+  }
+  return requestMessages
+}
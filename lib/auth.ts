@@ -0,0 +1,162 @@
+/**
+ * Optional access control, configured with environment variables:
+ *
+ * - AUTH_MODE: `passcode` or `oidc`; unset leaves the playground open
+ * - AUTH_SECRET: key used to sign session cookies (required when enabled)
+ * - AUTH_PASSCODE: shared passcode, in passcode mode
+ * - OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET: in oidc mode (see lib/oidc.ts)
+ *
+ * Only Web Crypto is used here so the middleware can import it.
+ */
+
+export type AuthMode = 'passcode' | 'oidc'
+
+export interface AuthConfig {
+  mode: AuthMode
+  secret: string
+}
+
+export interface SessionUser {
+  // Stable identifier, e.g. `passcode:alice` or the OIDC `sub`
+  id: string
+  name?: string
+  email?: string
+}
+
+interface SessionPayload extends SessionUser {
+  exp: number
+}
+
+export const SESSION_COOKIE = 'playground_session'
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+// Set by the middleware on authenticated requests; never trusted from clients
+export const USER_HEADER = 'x-playground-user'
+
+/**
+ * Read the auth configuration, or undefined when auth is off
+ */
+export function getAuthConfig(): AuthConfig | undefined {
+  const mode = process.env.AUTH_MODE
+  if (!mode) return undefined
+  if (mode !== 'passcode' && mode !== 'oidc') {
+    throw new Error(`AUTH_MODE must be "passcode" or "oidc", got "${mode}"`)
+  }
+  const secret = process.env.AUTH_SECRET
+  if (!secret || secret.length < 32) {
+    throw new Error('AUTH_SECRET must be set to at least 32 characters when AUTH_MODE is set')
+  }
+  return { mode, secret }
+}
+
+const encoder = new TextEncoder()
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+async function hmac(secret: string, data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)))
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i]
+  return difference === 0
+}
+
+/**
+ * Compare two secrets without leaking where they differ
+ */
+export async function secretsEqual(secret: string, a: string, b: string): Promise<boolean> {
+  return bytesEqual(await hmac(secret, a), await hmac(secret, b))
+}
+
+/**
+ * Sign a JSON value as `<payload>.<signature>`, both base64url
+ */
+export async function signValue(secret: string, value: unknown): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(value)))
+  return `${payload}.${toBase64Url(await hmac(secret, payload))}`
+}
+
+/**
+ * Verify a value made by signValue; undefined when tampered with or malformed
+ */
+export async function verifyValue<T>(secret: string, token: string | undefined): Promise<T | undefined> {
+  const [payload, signature, ...rest] = token?.split('.') ?? []
+  if (!payload || !signature || rest.length > 0) return undefined
+  try {
+    if (!bytesEqual(fromBase64Url(signature), await hmac(secret, payload))) return undefined
+    return JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as T
+  } catch {
+    return undefined
+  }
+}
+
+export async function createSessionToken(secret: string, user: SessionUser): Promise<string> {
+  const payload: SessionPayload = { ...user, exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS }
+  return signValue(secret, payload)
+}
+
+export async function verifySessionToken(secret: string, token: string | undefined): Promise<SessionUser | undefined> {
+  const payload = await verifyValue<SessionPayload>(secret, token)
+  if (!payload || typeof payload.id !== 'string' || payload.exp < Date.now() / 1000) return undefined
+  const { exp: _exp, ...user } = payload
+  return user
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+}
+
+// Header values must be ASCII, so the user is URI-encoded JSON
+export function encodeUserHeader(user: SessionUser): string {
+  return encodeURIComponent(JSON.stringify(user))
+}
+
+/**
+ * Signed-in user of a route handler request, as set by the middleware
+ */
+export function getRequestUser(request: Request): SessionUser | undefined {
+  const header = request.headers.get(USER_HEADER)
+  if (!header) return undefined
+  try {
+    return JSON.parse(decodeURIComponent(header)) as SessionUser
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Short label for logs and usage records
+ */
+export function describeUser(user: SessionUser | undefined): string {
+  if (!user) return 'anonymous'
+  return user.email ?? user.name ?? user.id
+}
+
+/**
+ * Only allow redirects back into the app after login
+ */
+export function safeRedirectPath(value: string | null | undefined): string {
+  return value && /^\/(?![\/\\])/.test(value) ? value : '/'
+}
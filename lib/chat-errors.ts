@@ -0,0 +1,122 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js'
+import { StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { McpConnectionError } from './mcp-client'
+
+/**
+ * Why a chat turn failed, as shown to the user
+ */
+export type ChatErrorKind = 'mcp_unreachable' | 'auth' | 'rate_limit' | 'overloaded' | 'timeout' | 'unknown'
+
+export interface ClassifiedChatError {
+  kind: ChatErrorKind
+  // Explanation for the user
+  message: string
+  // Whether the same request may succeed if sent again
+  retryable: boolean
+  // Delay requested by the API, in milliseconds
+  retryAfterMs?: number
+}
+
+/**
+ * A turn still running at its deadline, which is set below the host's
+ * function time limit so the user is told instead of cut off
+ */
+export class TurnTimeoutError extends Error {
+  constructor() {
+    super('The turn ran past its time limit')
+    this.name = 'TurnTimeoutError'
+  }
+}
+
+// MCP connector failures are reported by the API as request errors that mention MCP
+const MCP_PATTERN = /\bmcp\b/i
+const UNREACHABLE_PATTERN = /connect|reach|timed? ?out|unavailable|refused|fetch failed|\b50[234]\b/i
+const AUTH_PATTERN = /\b40[13]\b|unauthori[sz]ed|forbidden|authenticat/i
+
+function retryAfterMs(headers: Record<string, string | null | undefined> | undefined): number | undefined {
+  const seconds = Number(headers?.['retry-after'])
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined
+}
+
+function isMcpAuthFailure(cause: unknown): boolean {
+  return cause instanceof UnauthorizedError ||
+    (cause instanceof StreamableHTTPError && (cause.code === 401 || cause.code === 403))
+}
+
+/**
+ * Sort an error from the Anthropic API or an MCP server into the kinds the
+ * chat can explain, and decide whether it is worth retrying
+ */
+export function classifyChatError(error: unknown): ClassifiedChatError {
+  const detail = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof TurnTimeoutError) {
+    return {
+      kind: 'timeout',
+      message: 'The reply took longer than the server allows and was stopped. Try again, and decide on tool calls sooner.',
+      retryable: false,
+    }
+  }
+
+  if (error instanceof McpConnectionError) {
+    if (isMcpAuthFailure(error.cause)) {
+      return {
+        kind: 'auth',
+        message: `MCP server "${error.serverName}" rejected the authorization token. Update the token or sign in again.`,
+        retryable: false,
+      }
+    }
+    return {
+      kind: 'mcp_unreachable',
+      message: `Could not reach MCP server "${error.serverName}". It may be starting up or down.`,
+      retryable: true,
+    }
+  }
+
+  // Errors sent inside the stream arrive without a status, as `SSE Error: {...}`
+  const status = error instanceof Anthropic.APIError ? error.status : undefined
+  const headers = error instanceof Anthropic.APIError ? error.headers : undefined
+
+  if (status === 429 || detail.includes('rate_limit_error')) {
+    return {
+      kind: 'rate_limit',
+      message: 'The Anthropic API rate limit was reached.',
+      retryable: true,
+      retryAfterMs: retryAfterMs(headers),
+    }
+  }
+  if (status === 529 || detail.includes('overloaded_error')) {
+    return {
+      kind: 'overloaded',
+      message: 'The Anthropic API is overloaded.',
+      retryable: true,
+      retryAfterMs: retryAfterMs(headers),
+    }
+  }
+  const mentionsMcp = MCP_PATTERN.test(detail)
+  if (mentionsMcp && AUTH_PATTERN.test(detail)) {
+    return {
+      kind: 'auth',
+      message: 'An MCP server rejected the authorization token. Update the token or sign in again.',
+      retryable: false,
+    }
+  }
+  if (mentionsMcp && UNREACHABLE_PATTERN.test(detail)) {
+    return {
+      kind: 'mcp_unreachable',
+      message: 'Could not reach the MCP server. It may be starting up or down.',
+      retryable: true,
+    }
+  }
+  if (status === 401 || status === 403) {
+    return {
+      kind: 'auth',
+      message: 'The Anthropic API key was rejected. Check the key in Settings or the server configuration.',
+      retryable: false,
+    }
+  }
+  // Network failures and server errors are usually transient
+  const transient = error instanceof Anthropic.APIConnectionError || (status !== undefined && status >= 500)
+  return { kind: 'unknown', message: detail, retryable: transient }
+}
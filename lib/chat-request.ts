@@ -0,0 +1,263 @@
+import type { ApiErrorCode } from './api-errors'
+import { formatBytes, MAX_ATTACHMENTS_PER_MESSAGE, MAX_MESSAGE_ATTACHMENT_BYTES, parseAttachmentBlock } from './attachments'
+import { type ChatSettings, validateChatSettings } from './chat-settings'
+import { DEFAULT_MCP_SERVERS, type McpServerConfig, validateMcpServers } from './mcp-servers'
+import type { ContentBlock, ContextCompaction, Message, MessageAttachment } from './types'
+import { checkMcpUrls } from './url-policy'
+
+// Assistant turns carry their tool results, and user turns their attachments,
+// so this matches the Anthropic API's own request limit
+export const MAX_CHAT_REQUEST_BYTES = 32 * 1024 * 1024
+export const MAX_MESSAGES = 200
+export const MAX_MESSAGE_LENGTH = 100_000
+const MAX_BLOCKS_PER_MESSAGE = 500
+// Serialized size of an assistant message's blocks, and of all of them,
+// in characters. Tool results make up most of it.
+export const MAX_BLOCKS_LENGTH_PER_MESSAGE = 2 * 1024 * 1024
+export const MAX_BLOCKS_LENGTH = 16 * 1024 * 1024
+
+// Blocks the chat route stores on assistant messages
+const ASSISTANT_BLOCK_TYPES = [
+  'text',
+  'thinking',
+  'redacted_thinking',
+  'tool_use',
+  'tool_result',
+  'mcp_tool_use',
+  'mcp_tool_result',
+]
+
+export interface ChatRequest {
+  messages: Message[]
+  servers: McpServerConfig[]
+  settings: ChatSettings
+}
+
+export type ChatRequestValidation =
+  | { ok: true; request: ChatRequest }
+  | { ok: false; code: ApiErrorCode; error: string }
+
+function isContentBlock(value: unknown): value is ContentBlock {
+  return !!value && typeof value === 'object' && typeof (value as ContentBlock).type === 'string'
+}
+
+function isIndex(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max
+}
+
+/**
+ * Check the blocks of an earlier reply: only the types the route emits,
+ * with text no longer than a message, and a bounded size. Returns the size.
+ */
+function checkAssistantBlocks(
+  blocks: unknown,
+  label: string
+): { ok: true; length: number } | { ok: false; error: string } {
+  if (!Array.isArray(blocks) || blocks.length > MAX_BLOCKS_PER_MESSAGE || !blocks.every(isContentBlock)) {
+    return { ok: false, error: `${label}.blocks must be an array of content blocks` }
+  }
+  for (const [index, block] of blocks.entries()) {
+    if (!ASSISTANT_BLOCK_TYPES.includes(block.type)) {
+      return { ok: false, error: `${label}.blocks[${index}] has an unsupported type` }
+    }
+    if (block.type === 'text' && (typeof block.text !== 'string' || block.text.length > MAX_MESSAGE_LENGTH)) {
+      return { ok: false, error: `${label}.blocks[${index}].text must be a string of at most ${MAX_MESSAGE_LENGTH} characters` }
+    }
+  }
+  const length = JSON.stringify(blocks).length
+  if (length > MAX_BLOCKS_LENGTH_PER_MESSAGE) {
+    return { ok: false, error: `${label}.blocks are larger than ${MAX_BLOCKS_LENGTH_PER_MESSAGE} characters` }
+  }
+  return { ok: true, length }
+}
+
+/**
+ * Check a compaction record from an earlier reply. Its indexes must point
+ * at or before the reply, and what it keeps must start with a user message.
+ */
+function isContextCompaction(value: unknown, index: number, messages: Message[]): value is ContextCompaction {
+  if (!value || typeof value !== 'object') return false
+  const { clearedToolResultsBefore, clearedToolResults, droppedBefore, summary, tokensBefore, tokensAfter } = value as Record<string, unknown>
+  return (
+    isIndex(clearedToolResultsBefore, index) &&
+    (clearedToolResults === undefined || isIndex(clearedToolResults, Number.MAX_SAFE_INTEGER)) &&
+    isIndex(droppedBefore, index) &&
+    (droppedBefore === 0 || messages[droppedBefore]?.role === 'user') &&
+    (summary === undefined || (typeof summary === 'string' && summary.length <= MAX_MESSAGE_LENGTH)) &&
+    isIndex(tokensBefore, Number.MAX_SAFE_INTEGER) &&
+    isIndex(tokensAfter, Number.MAX_SAFE_INTEGER)
+  )
+}
+
+/**
+ * Split a user message's block array into its text and attachments
+ */
+function parseUserContent(
+  blocks: unknown[],
+  label: string
+): { ok: true; text: string; attachments: MessageAttachment[] } | { ok: false; error: string } {
+  const texts: string[] = []
+  const attachments: MessageAttachment[] = []
+
+  for (const [index, block] of blocks.entries()) {
+    if (!isContentBlock(block)) {
+      return { ok: false, error: `${label}.content[${index}] must be a content block` }
+    }
+    if (block.type === 'text') {
+      if (typeof block.text !== 'string') {
+        return { ok: false, error: `${label}.content[${index}].text must be a string` }
+      }
+      texts.push(block.text)
+    } else if (block.type === 'image' || block.type === 'document') {
+      const parsed = parseAttachmentBlock(block, `${label}-${index}`)
+      if (!parsed.ok) return { ok: false, error: `${label}.content[${index}]: ${parsed.error}` }
+      attachments.push(parsed.attachment)
+    } else {
+      return { ok: false, error: `${label}.content[${index}].type must be "text", "image" or "document"` }
+    }
+  }
+
+  if (attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return { ok: false, error: `${label} has more than ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` }
+  }
+  if (attachments.reduce((sum, attachment) => sum + attachment.size, 0) > MAX_MESSAGE_ATTACHMENT_BYTES) {
+    return { ok: false, error: `${label} has more than ${formatBytes(MAX_MESSAGE_ATTACHMENT_BYTES)} of attachments` }
+  }
+  return { ok: true, text: texts.join('\n\n'), attachments }
+}
+
+/**
+ * Check roles and sizes, keeping only the fields the route uses
+ */
+export function validateChatMessages(value: unknown): { ok: true; messages: Message[] } | { ok: false; error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, error: 'messages must be a non-empty array' }
+  }
+  if (value.length > MAX_MESSAGES) {
+    return { ok: false, error: `At most ${MAX_MESSAGES} messages are allowed` }
+  }
+
+  const messages: Message[] = []
+  let blocksLength = 0
+  for (const [index, item] of value.entries()) {
+    const label = `messages[${index}]`
+    if (!item || typeof item !== 'object') {
+      return { ok: false, error: `${label} must be an object` }
+    }
+
+    const { role, content: rawContent, blocks, compaction } = item as Record<string, unknown>
+    if (role !== 'user' && role !== 'assistant') {
+      return { ok: false, error: `${label}.role must be "user" or "assistant"` }
+    }
+
+    // User messages with attachments send an array of text, image and document blocks
+    let content: string
+    let attachments: MessageAttachment[] = []
+    if (typeof rawContent === 'string') {
+      content = rawContent
+    } else if (role === 'user' && Array.isArray(rawContent) && rawContent.length <= MAX_BLOCKS_PER_MESSAGE) {
+      const parsed = parseUserContent(rawContent, label)
+      if (!parsed.ok) return parsed
+      content = parsed.text
+      attachments = parsed.attachments
+    } else {
+      return {
+        ok: false,
+        error: role === 'user'
+          ? `${label}.content must be a string or an array of content blocks`
+          : `${label}.content must be a string`,
+      }
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      return { ok: false, error: `${label}.content is longer than ${MAX_MESSAGE_LENGTH} characters` }
+    }
+    if (blocks !== undefined) {
+      if (role !== 'assistant') {
+        return { ok: false, error: `${label}.blocks is only allowed on assistant messages` }
+      }
+      const checked = checkAssistantBlocks(blocks, label)
+      if (!checked.ok) return checked
+      blocksLength += checked.length
+      if (blocksLength > MAX_BLOCKS_LENGTH) {
+        return { ok: false, error: `The blocks of all messages are larger than ${MAX_BLOCKS_LENGTH} characters` }
+      }
+    }
+
+    if (compaction !== undefined) {
+      if (role !== 'assistant') {
+        return { ok: false, error: `${label}.compaction is only allowed on assistant messages` }
+      }
+      if (!isContextCompaction(compaction, index, messages)) {
+        return { ok: false, error: `${label}.compaction is malformed` }
+      }
+    }
+
+    messages.push({
+      role,
+      content,
+      ...(attachments.length > 0 && { attachments }),
+      ...(blocks !== undefined && { blocks: blocks as ContentBlock[] }),
+      ...(compaction !== undefined && { compaction: compaction as ContextCompaction }),
+    })
+  }
+
+  const last = messages[messages.length - 1]
+  if (last.role !== 'user' || (!last.content.trim() && !last.attachments?.length)) {
+    return { ok: false, error: 'The last message must be a non-empty user message' }
+  }
+
+  return { ok: true, messages }
+}
+
+/**
+ * Validate a chat request body, including the MCP URL policy
+ */
+export async function validateChatRequest(body: unknown): Promise<ChatRequestValidation> {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, code: 'invalid_json', error: 'Request body must be a JSON object' }
+  }
+  const { messages: rawMessages, mcpUrl, mcpServers, settings: rawSettings } = body as Record<string, unknown>
+
+  const messagesValidation = validateChatMessages(rawMessages)
+  if (!messagesValidation.ok) {
+    return { ok: false, code: 'invalid_messages', error: messagesValidation.error }
+  }
+
+  const settingsValidation = validateChatSettings(rawSettings)
+  if (!settingsValidation.ok) {
+    return { ok: false, code: 'invalid_settings', error: settingsValidation.error }
+  }
+
+  // Prefer the server list; fall back to a single URL for older clients
+  let servers: McpServerConfig[]
+  if (mcpServers !== undefined) {
+    const validation = validateMcpServers(mcpServers)
+    if (!validation.ok) {
+      return { ok: false, code: 'invalid_servers', error: validation.error }
+    }
+    servers = validation.servers
+  } else if (mcpUrl !== undefined) {
+    const validation = validateMcpServers([{ name: 'mcp-tools', url: mcpUrl }])
+    if (!validation.ok) {
+      return { ok: false, code: 'invalid_servers', error: 'mcpUrl must be an http(s) URL' }
+    }
+    servers = validation.servers
+  } else {
+    servers = DEFAULT_MCP_SERVERS
+  }
+  servers = servers.filter(server => server.enabled)
+
+  if (servers.length === 0) {
+    return { ok: false, code: 'invalid_servers', error: 'At least one MCP server must be enabled' }
+  }
+
+  const urlPolicy = await checkMcpUrls(servers.map(server => server.url))
+  if (!urlPolicy.ok) {
+    return { ok: false, code: 'mcp_url_blocked', error: urlPolicy.error }
+  }
+
+  return {
+    ok: true,
+    request: { messages: messagesValidation.messages, servers, settings: settingsValidation.settings },
+  }
+}
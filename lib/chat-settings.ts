@@ -0,0 +1,156 @@
+/**
+ * Model settings for a conversation, validated by the chat route
+ */
+export interface ChatSettings {
+  model: string
+  maxTokens: number
+  temperature: number
+  systemPrompt: string
+  // Extended thinking; temperature is not sent while it is on
+  thinking: boolean
+  thinkingBudget: number
+  // Run MCP tools from the server, pausing for the user's approval
+  approveToolCalls: boolean
+  // Answer without MCP tools when no MCP server can be reached
+  mcpFallback: boolean
+  // What to do with older turns once the context passes compactThreshold
+  compaction: ContextCompactionMode
+  // Percentage of the context window
+  compactThreshold: number
+}
+
+export type ContextCompactionMode = 'summarize' | 'trim' | 'off'
+
+export interface ModelOption {
+  id: string
+  label: string
+  maxOutputTokens: number
+  contextWindow: number
+  supportsThinking: boolean
+}
+
+// Models the playground is allowed to call
+export const ALLOWED_MODELS: ModelOption[] = [
+  { id: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4', maxOutputTokens: 64000, contextWindow: 200000, supportsThinking: true },
+  { id: 'claude-opus-4-20250514', label: 'Claude Opus 4', maxOutputTokens: 32000, contextWindow: 200000, supportsThinking: true },
+  { id: 'claude-3-7-sonnet-20250219', label: 'Claude Sonnet 3.7', maxOutputTokens: 64000, contextWindow: 200000, supportsThinking: true },
+  { id: 'claude-3-5-haiku-20241022', label: 'Claude Haiku 3.5', maxOutputTokens: 8192, contextWindow: 200000, supportsThinking: false },
+]
+
+export const MIN_MAX_TOKENS = 256
+export const MAX_SYSTEM_PROMPT_LENGTH = 20000
+export const MIN_THINKING_BUDGET = 1024
+export const MIN_COMPACT_THRESHOLD = 20
+export const MAX_COMPACT_THRESHOLD = 95
+const COMPACTION_MODES: ContextCompactionMode[] = ['summarize', 'trim', 'off']
+
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant with access to tools via MCP (Model Context Protocol). Use the available tools to help users accomplish their tasks. Be concise, helpful, and use tools when appropriate to provide accurate, real-time information.`
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  model: 'claude-sonnet-4-20250514',
+  maxTokens: 4096,
+  temperature: 1,
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  thinking: false,
+  thinkingBudget: 2048,
+  approveToolCalls: false,
+  mcpFallback: false,
+  compaction: 'summarize',
+  compactThreshold: 80,
+}
+
+export function getModelOption(id: string): ModelOption | undefined {
+  return ALLOWED_MODELS.find(model => model.id === id)
+}
+
+export type ChatSettingsValidation =
+  | { ok: true; settings: ChatSettings }
+  | { ok: false; error: string }
+
+/**
+ * Validate settings received from the client.
+ * Missing fields fall back to the defaults.
+ */
+export function validateChatSettings(value: unknown): ChatSettingsValidation {
+  if (value === undefined) return { ok: true, settings: DEFAULT_CHAT_SETTINGS }
+  if (!value || typeof value !== 'object') {
+    return { ok: false, error: 'settings must be an object' }
+  }
+
+  const settings = { ...DEFAULT_CHAT_SETTINGS, ...(value as Partial<ChatSettings>) }
+
+  const model = typeof settings.model === 'string' ? getModelOption(settings.model) : undefined
+  if (!model) {
+    return { ok: false, error: `settings.model must be one of: ${ALLOWED_MODELS.map(m => m.id).join(', ')}` }
+  }
+  if (
+    !Number.isInteger(settings.maxTokens) ||
+    settings.maxTokens < MIN_MAX_TOKENS ||
+    settings.maxTokens > model.maxOutputTokens
+  ) {
+    return {
+      ok: false,
+      error: `settings.maxTokens must be an integer between ${MIN_MAX_TOKENS} and ${model.maxOutputTokens} for ${model.id}`,
+    }
+  }
+  if (typeof settings.temperature !== 'number' || settings.temperature < 0 || settings.temperature > 1) {
+    return { ok: false, error: 'settings.temperature must be a number between 0 and 1' }
+  }
+  if (typeof settings.systemPrompt !== 'string' || settings.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return { ok: false, error: `settings.systemPrompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters` }
+  }
+  if (typeof settings.approveToolCalls !== 'boolean') {
+    return { ok: false, error: 'settings.approveToolCalls must be a boolean' }
+  }
+  if (typeof settings.mcpFallback !== 'boolean') {
+    return { ok: false, error: 'settings.mcpFallback must be a boolean' }
+  }
+  if (!COMPACTION_MODES.includes(settings.compaction)) {
+    return { ok: false, error: `settings.compaction must be one of: ${COMPACTION_MODES.join(', ')}` }
+  }
+  if (
+    !Number.isInteger(settings.compactThreshold) ||
+    settings.compactThreshold < MIN_COMPACT_THRESHOLD ||
+    settings.compactThreshold > MAX_COMPACT_THRESHOLD
+  ) {
+    return {
+      ok: false,
+      error: `settings.compactThreshold must be an integer between ${MIN_COMPACT_THRESHOLD} and ${MAX_COMPACT_THRESHOLD}`,
+    }
+  }
+  if (typeof settings.thinking !== 'boolean') {
+    return { ok: false, error: 'settings.thinking must be a boolean' }
+  }
+  if (settings.thinking) {
+    if (!model.supportsThinking) {
+      return { ok: false, error: `${model.id} does not support extended thinking` }
+    }
+    // The budget counts towards max_tokens and must leave room for the answer
+    if (
+      !Number.isInteger(settings.thinkingBudget) ||
+      settings.thinkingBudget < MIN_THINKING_BUDGET ||
+      settings.thinkingBudget >= settings.maxTokens
+    ) {
+      return {
+        ok: false,
+        error: `settings.thinkingBudget must be an integer of at least ${MIN_THINKING_BUDGET} and less than maxTokens`,
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    settings: {
+      model: settings.model,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+      systemPrompt: settings.systemPrompt,
+      thinking: settings.thinking,
+      thinkingBudget: settings.thinkingBudget,
+      approveToolCalls: settings.approveToolCalls,
+      mcpFallback: settings.mcpFallback,
+      compaction: settings.compaction,
+      compactThreshold: settings.compactThreshold,
+    },
+  }
+}
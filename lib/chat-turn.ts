@@ -0,0 +1,296 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import {
+  addUsage,
+  type AssistantTurn,
+  type ReplayToolMode,
+  streamAssistantTurn,
+  toAnthropicMessages,
+} from './anthropic-stream'
+import { openToolSession, runApprovalAgent, type ToolSession } from './approval-agent'
+import { classifyChatError, TurnTimeoutError } from './chat-errors'
+import type { ChatRequest } from './chat-request'
+import type { ChatSettings } from './chat-settings'
+import { manageContext } from './context-window'
+import type { Logger } from './logger'
+import { type McpServerDefinition, toMcpServerDefinitions } from './mcp-servers'
+import { backoffDelay, withRetry } from './retry'
+import type { ChatStreamEvent } from './stream-events'
+import { createTurnTimer } from './turn-timing'
+import type { Message } from './types'
+
+/**
+ * One chat turn, from a validated request to the events the page receives.
+ * Shared by the chat route and the scenario runner.
+ */
+
+// The part of the Anthropic client a turn uses, so recorded streams can stand in for it
+export interface MessageStreamClient {
+  messages: {
+    stream(
+      params: Anthropic.MessageStreamParams,
+      options?: Anthropic.RequestOptions
+    ): AsyncIterable<Anthropic.MessageStreamEvent>
+    // Recorded streams have no token counts, so the size is estimated instead
+    countTokens?(
+      params: Anthropic.MessageCountTokensParams,
+      options?: Anthropic.RequestOptions
+    ): Promise<Anthropic.MessageTokensCount>
+  }
+}
+
+export interface ChatTurnOptions {
+  anthropic: MessageStreamClient
+  request: ChatRequest
+  requestId: string
+  send: (event: ChatStreamEvent) => void
+  signal: AbortSignal
+  log: Logger
+  // Signed-in user the usage is attributed to
+  user?: string
+  maxRetries?: number
+  // When the turn must end, in milliseconds since the epoch; past it the
+  // turn stops with a `timeout` error
+  deadline?: number
+}
+
+// Retries for rate limits, overload and unreachable MCP servers (CHAT_MAX_RETRIES, default 3)
+const configuredRetries = Number(process.env.CHAT_MAX_RETRIES || 3)
+const MAX_RETRIES = Number.isInteger(configuredRetries) && configuredRetries >= 0 ? configuredRetries : 3
+// Give up instead of waiting longer than this for a retry
+const MAX_RETRY_DELAY_MS = 30_000
+
+const MCP_CONNECTOR_BETA = 'mcp-client-2025-04-04'
+
+// Events that report on the request rather than stream its output
+const STATUS_EVENTS: ChatStreamEvent['type'][] = ['retrying', 'fallback', 'context', 'context_compacted']
+
+const FALLBACK_SYSTEM_NOTE =
+  'The MCP tools are unavailable for this reply because their servers could not be reached. ' +
+  'Answer without them and tell the user that no tools were used.'
+
+const CACHE_CONTROL = { type: 'ephemeral' } as const
+
+// Blocks that may carry a cache breakpoint; thinking blocks and MCP connector blocks may not
+const CACHEABLE_BLOCK_TYPES = ['text', 'image', 'document', 'tool_use', 'tool_result']
+
+/**
+ * Mark the end of a message as a prompt cache breakpoint, on a copy
+ */
+function withCacheBreakpoint(message: Anthropic.MessageParam): Anthropic.MessageParam {
+  if (typeof message.content === 'string') {
+    return { ...message, content: [{ type: 'text', text: message.content, cache_control: CACHE_CONTROL }] }
+  }
+  const index = message.content.findLastIndex(block => CACHEABLE_BLOCK_TYPES.includes(block.type))
+  if (index === -1) return message
+  return {
+    ...message,
+    content: message.content.map((block, blockIndex) =>
+      blockIndex === index ? { ...block, cache_control: CACHE_CONTROL } as Anthropic.ContentBlockParam : block
+    ),
+  }
+}
+
+/**
+ * Model parameters and beta flags for a request, without MCP servers or tools.
+ * The system prompt and the turns before the new message are cached, so
+ * each turn only pays full price for what was added since the last one.
+ * Without `withTools`, earlier tool calls are replayed as text.
+ */
+export function buildTurnParams(
+  { messages, settings }: Pick<ChatRequest, 'messages' | 'settings'>,
+  { withTools = true }: { withTools?: boolean } = {}
+): {
+  params: Anthropic.MessageCreateParamsNonStreaming
+  betas: string[]
+} {
+  const toolMode: ReplayToolMode = !withTools ? 'none' : settings.approveToolCalls ? 'client' : 'connector'
+
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    // Extended thinking does not allow a custom temperature
+    ...(settings.thinking
+      ? { thinking: { type: 'enabled', budget_tokens: settings.thinkingBudget } }
+      : { temperature: settings.temperature }),
+    ...(settings.systemPrompt.trim() && {
+      system: [{ type: 'text', text: settings.systemPrompt, cache_control: CACHE_CONTROL }],
+    }),
+    messages: toAnthropicMessages(messages, toolMode),
+  }
+
+  const previousTurnEnd = params.messages.length - 2
+  if (previousTurnEnd >= 0) {
+    params.messages[previousTurnEnd] = withCacheBreakpoint(params.messages[previousTurnEnd])
+  }
+
+  // Interleaved thinking lets Claude reason between tool calls
+  const betas: string[] = []
+  if (toolMode === 'connector') betas.push(MCP_CONNECTOR_BETA)
+  if (settings.thinking) betas.push('interleaved-thinking-2025-05-14')
+  return { params, betas }
+}
+
+// A request as sent: model parameters with the tool definitions, and headers
+interface TurnRequest {
+  params: Anthropic.MessageCreateParamsNonStreaming & { mcp_servers?: McpServerDefinition[] }
+  headers: Record<string, string>
+}
+
+function betaHeaders(betas: string[]): Record<string, string> {
+  return betas.length > 0 ? { 'anthropic-beta': betas.join(',') } : {}
+}
+
+function fallbackSystemPrompt(settings: ChatSettings): string {
+  return [settings.systemPrompt.trim(), FALLBACK_SYSTEM_NOTE].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Run one turn and report it through `send`: streamed output, then the full
+ * message, usage and `done`, or an `error` event. Context compaction,
+ * retries and the no-MCP fallback happen here. Returns the turn, or
+ * undefined if it failed or was cancelled.
+ */
+export async function runChatTurn({
+  anthropic,
+  request,
+  requestId,
+  send: sendEvent,
+  signal: requestSignal,
+  log,
+  user,
+  maxRetries = MAX_RETRIES,
+  deadline,
+}: ChatTurnOptions): Promise<AssistantTurn | undefined> {
+  const { servers, settings } = request
+  const timer = createTurnTimer()
+
+  // Everything the turn does stops at the deadline as well as on cancel
+  const deadlineController = new AbortController()
+  const deadlineTimer = deadline === undefined ? undefined : setTimeout(
+    () => deadlineController.abort(new TurnTimeoutError()),
+    Math.max(0, deadline - Date.now())
+  )
+  const signal = AbortSignal.any([requestSignal, deadlineController.signal])
+
+  // A request that already streamed output is not retried, so nothing is repeated
+  let outputSent = false
+  const send = (event: ChatStreamEvent) => {
+    if (!STATUS_EVENTS.includes(event.type)) outputSent = true
+    timer.observe(event)
+    sendEvent(event)
+  }
+
+  const retrying = <T>(run: () => Promise<T>) => withRetry(run, {
+    maxRetries,
+    signal,
+    retryDelay: (error, retry) => {
+      const classified = classifyChatError(error)
+      if (!classified.retryable || outputSent) return undefined
+      const delayMs = classified.retryAfterMs ?? backoffDelay(retry)
+      return delayMs <= MAX_RETRY_DELAY_MS ? delayMs : undefined
+    },
+    onRetry: ({ attempt, maxAttempts, delayMs, error }) => {
+      const { kind, message } = classifyChatError(error)
+      log.warn('Retrying chat request', { attempt, kind, delayMs, error })
+      send({ type: 'retrying', attempt, max_attempts: maxAttempts, delay_ms: delayMs, kind, message })
+    },
+  })
+
+  // Whether to answer without MCP after `error`, telling the user if so
+  const fallBackAfter = (error: unknown): boolean => {
+    const classified = classifyChatError(error)
+    if (!settings.mcpFallback || classified.kind !== 'mcp_unreachable' || outputSent || signal.aborted) {
+      return false
+    }
+    log.warn('Answering without MCP', { error })
+    send({ type: 'fallback', reason: classified.message })
+    return true
+  }
+
+  // Approval mode connects before the request is built, so its tools are known
+  let session: ToolSession | undefined
+
+  // The request for a message list, with the tools it offers, so the token
+  // count covers their definitions too
+  const buildRequest = (messages: Message[], withTools: boolean): TurnRequest => {
+    const { params, betas } = buildTurnParams({ messages, settings }, { withTools })
+    const tools = !withTools ? {} : session ? { tools: session.tools } : { mcp_servers: toMcpServerDefinitions(servers) }
+    return { params: { ...params, ...tools }, headers: betaHeaders(betas) }
+  }
+
+  const runTurn = async ({ params, headers }: TurnRequest): Promise<AssistantTurn> => {
+    if (session) {
+      // Tools run here, one approved call at a time
+      return runApprovalAgent({ anthropic, params, headers, session, requestId, send, signal, deadline })
+    }
+    const response = anthropic.messages.stream(params, { headers, signal })
+    return streamAssistantTurn(response, { model: settings.model, send })
+  }
+
+  // Same request without MCP servers or tools, flagged to the user
+  const runFallbackTurn = async ({ params, headers }: TurnRequest): Promise<AssistantTurn> => {
+    const response = anthropic.messages.stream({ ...params, system: fallbackSystemPrompt(settings) }, { headers, signal })
+    return streamAssistantTurn(response, { model: settings.model, send })
+  }
+
+  try {
+    let withTools = true
+    if (settings.approveToolCalls) {
+      try {
+        session = await retrying(() => openToolSession(servers))
+      } catch (error) {
+        if (!fallBackAfter(error)) throw error
+        withTools = false
+      }
+    }
+
+    const context = await manageContext({
+      anthropic,
+      messages: request.messages,
+      settings,
+      buildParams: messages => buildRequest(messages, withTools),
+      retrying,
+      signal,
+      log,
+    })
+    if (context.compaction) send({ type: 'context_compacted', compaction: context.compaction })
+    send({ type: 'context', context: context.usage })
+
+    let turn: AssistantTurn
+    if (!withTools) {
+      turn = await retrying(() => runFallbackTurn(buildRequest(context.messages, false)))
+    } else {
+      try {
+        turn = await retrying(() => runTurn(buildRequest(context.messages, true)))
+      } catch (error) {
+        if (!fallBackAfter(error)) throw error
+        turn = await retrying(() => runFallbackTurn(buildRequest(context.messages, false)))
+      }
+    }
+
+    // Full assistant turn, so the client can send it back as context
+    send({ type: 'message', content: turn.content })
+    // The summary of older turns is billed with the turn that needed it
+    const turnUsage = context.summaryUsage ? addUsage(turn.usage, context.summaryUsage) : turn.usage
+    const usage = user ? { ...turnUsage, user } : turnUsage
+    const timings = timer.finish()
+    log.info('Chat request completed', { usage: turnUsage, stopReason: turn.stopReason, timings })
+    send({ type: 'usage', usage, stop_reason: turn.stopReason, timings })
+    send({ type: 'done' })
+    return turn
+  } catch (caught) {
+    if (requestSignal.aborted) {
+      log.info('Chat request cancelled', { timings: timer.finish() })
+      return undefined
+    }
+    // Whatever was running when the deadline passed fails with an abort error
+    const error = deadlineController.signal.aborted ? deadlineController.signal.reason : caught
+    const { kind, message } = classifyChatError(error)
+    log.error('Chat stream failed', { kind, error, timings: timer.finish() })
+    send({ type: 'error', error: message, kind })
+    return undefined
+  } finally {
+    clearTimeout(deadlineTimer)
+    await session?.close()
+  }
+}
@@ -0,0 +1,276 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import { addUsage, blockText, streamAssistantTurn } from './anthropic-stream'
+import { type ChatSettings, getModelOption } from './chat-settings'
+import type { MessageStreamClient } from './chat-turn'
+import type { Logger } from './logger'
+import type { McpServerDefinition } from './mcp-servers'
+import type { ContentBlock, ContextCompaction, ContextUsage, Message, TurnUsage } from './types'
+
+/**
+ * Keeps long conversations inside the model's context window: counts the
+ * tokens of each request and, past the configured threshold, clears old tool
+ * results and then summarizes or drops older turns.
+ */
+
+const DEFAULT_CONTEXT_WINDOW = 200_000
+
+export const CLEARED_TOOL_RESULT = '[Tool result cleared to save context]'
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation, which was compacted to save context:'
+
+const SUMMARY_REQUEST =
+  'Summarize the conversation above for your own later reference. Keep the goals, decisions, ' +
+  'names, ids, numbers and tool results that may matter later, and leave out small talk. ' +
+  'Reply with the summary only.'
+
+const SUMMARY_MAX_TOKENS = 2048
+
+// Rough sizes used when the token counting endpoint is unavailable
+const CHARS_PER_TOKEN = 4
+const IMAGE_TOKENS = 1600
+const DOCUMENT_BYTES_PER_TOKEN = 40
+
+// The new message and the turn before it are compacted only as a last resort
+const KEPT_TURN_COUNTS = [2, 1]
+
+type BuildParams = (messages: Message[]) => {
+  params: Anthropic.MessageCreateParamsNonStreaming & { mcp_servers?: McpServerDefinition[] }
+  headers: Record<string, string>
+}
+
+export interface ManageContextOptions {
+  anthropic: MessageStreamClient
+  messages: Message[]
+  settings: ChatSettings
+  // Builds the request for a message list, so the count matches what is sent
+  buildParams: BuildParams
+  // Runs the summary request with the turn's retry policy
+  retrying: <T>(run: () => Promise<T>) => Promise<T>
+  signal: AbortSignal
+  log: Logger
+}
+
+export interface ManagedContext {
+  // Messages to send, with every compaction applied
+  messages: Message[]
+  usage: ContextUsage
+  // Set when this turn compacted the context
+  compaction?: ContextCompaction
+  // Tokens spent summarizing older turns, billed with the turn
+  summaryUsage?: TurnUsage
+}
+
+export function contextWindowFor(model: string): number {
+  return getModelOption(model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * The compaction in effect for the next request: the most recent one on the path
+ */
+export function latestCompaction(messages: Message[]): ContextCompaction | undefined {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const compaction = messages[index].compaction
+    if (compaction) return compaction
+  }
+  return undefined
+}
+
+function isToolResult(block: ContentBlock): boolean {
+  return block.type === 'tool_result' || block.type === 'mcp_tool_result'
+}
+
+function clearToolResults(message: Message): Message {
+  if (!message.blocks?.some(isToolResult)) return message
+  return {
+    ...message,
+    blocks: message.blocks.map((block): ContentBlock =>
+      isToolResult(block) ? { ...block, content: [{ type: 'text', text: CLEARED_TOOL_RESULT }] } : block
+    ),
+  }
+}
+
+function countToolResults(messages: Message[]): number {
+  return messages.reduce((count, message) => count + (message.blocks?.filter(isToolResult).length ?? 0), 0)
+}
+
+/**
+ * Messages as sent to Claude once a compaction is applied. The summary is
+ * prepended to the first kept message, which is always a user message.
+ */
+export function applyCompaction(messages: Message[], compaction: ContextCompaction | undefined): Message[] {
+  if (!compaction) return messages
+
+  const kept = messages
+    .map((message, index) => index < compaction.clearedToolResultsBefore ? clearToolResults(message) : message)
+    .slice(compaction.droppedBefore)
+  if (!compaction.summary || kept.length === 0) return kept
+
+  const [first, ...rest] = kept
+  const content = [`${SUMMARY_PREFIX}\n\n${compaction.summary}`, first.content].filter(Boolean).join('\n\n')
+  return [{ ...first, content }, ...rest]
+}
+
+/**
+ * Index of the user message that starts the last `keptTurns` turns,
+ * or 0 when the conversation is not that long
+ */
+function turnBoundary(messages: Message[], keptTurns: number): number {
+  const userIndexes = messages.flatMap((message, index) => message.role === 'user' ? [index] : [])
+  return userIndexes.length > keptTurns ? userIndexes[userIndexes.length - keptTurns] : 0
+}
+
+function estimateBlockTokens(block: unknown): number {
+  const { type, source } = (block ?? {}) as { type?: string; source?: { type?: string; data?: string } }
+  if (type === 'image') return IMAGE_TOKENS
+  if (type === 'document' && source?.type === 'base64' && source.data) {
+    return Math.ceil((source.data.length * 3) / 4 / DOCUMENT_BYTES_PER_TOKEN)
+  }
+  return Math.ceil(JSON.stringify(block).length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Rough token count of a request, from its length. Tools offered through MCP
+ * servers are not known here, so only their definitions are counted.
+ */
+export function estimateTokens({ system, tools, mcp_servers, messages }: ReturnType<BuildParams>['params']): number {
+  const definitionTokens = [system, tools, mcp_servers]
+    .reduce((sum, value) => sum + (value ? Math.ceil(JSON.stringify(value).length / CHARS_PER_TOKEN) : 0), 0)
+  return messages.reduce((sum, message) => sum + (typeof message.content === 'string'
+    ? Math.ceil(message.content.length / CHARS_PER_TOKEN)
+    : message.content.reduce((blockSum, block) => blockSum + estimateBlockTokens(block), 0)
+  ), definitionTokens)
+}
+
+async function countTokens(
+  messages: Message[],
+  { anthropic, settings, buildParams, signal, log }: ManageContextOptions
+): Promise<ContextUsage> {
+  const contextWindow = contextWindowFor(settings.model)
+  const { params, headers } = buildParams(messages)
+
+  if (anthropic.messages.countTokens) {
+    // The same tools as the request, whether defined here or by MCP servers
+    const countParams: Anthropic.MessageCountTokensParams & { mcp_servers?: McpServerDefinition[] } = {
+      model: params.model,
+      system: params.system,
+      messages: params.messages,
+      ...(params.thinking && { thinking: params.thinking }),
+      ...(params.tools && { tools: params.tools }),
+      ...(params.mcp_servers && { mcp_servers: params.mcp_servers }),
+    }
+    try {
+      const { input_tokens } = await anthropic.messages.countTokens(countParams, { headers, signal })
+      return { tokens: input_tokens, contextWindow, estimated: false }
+    } catch (error) {
+      if (signal.aborted) throw error
+      log.warn('Token count failed; estimating instead', { error })
+    }
+  }
+  return { tokens: estimateTokens(params), contextWindow, estimated: true }
+}
+
+/**
+ * Plain-text transcript for the summary request, which then needs no tool
+ * definitions, beta flags or thinking signatures
+ */
+function transcriptText(messages: Message[]): string {
+  return messages.map(message => {
+    const parts = message.role === 'assistant' && message.blocks
+      ? message.blocks.map(blockText)
+      : [message.content, ...(message.attachments ?? []).map(attachment => `[Attached ${attachment.name}]`)]
+    return `${message.role === 'user' ? 'User' : 'Assistant'}: ${parts.filter(Boolean).join('\n')}`
+  }).join('\n\n')
+}
+
+/**
+ * Ask Claude to summarize messages, including any earlier summary
+ */
+async function summarize(
+  messages: Message[],
+  { anthropic, settings, signal }: ManageContextOptions
+): Promise<{ summary: string; usage: TurnUsage }> {
+  const turn = await streamAssistantTurn(
+    anthropic.messages.stream({
+      model: settings.model,
+      max_tokens: SUMMARY_MAX_TOKENS,
+      temperature: 0,
+      messages: [{ role: 'user', content: `<conversation>\n${transcriptText(messages)}\n</conversation>\n\n${SUMMARY_REQUEST}` }],
+    }, { signal }),
+    { model: settings.model, send: () => {} }
+  )
+  const summary = turn.content.map(block => block.type === 'text' ? String(block.text ?? '') : '').join('').trim()
+  if (!summary) throw new Error('The summary was empty')
+  return { summary, usage: turn.usage }
+}
+
+/**
+ * Apply earlier compactions and count the request. Past the threshold, clear
+ * old tool results first, then summarize (or drop) the older turns. Turns
+ * are kept when their summary fails, so only the chosen mode drops them.
+ */
+export async function manageContext(options: ManageContextOptions): Promise<ManagedContext> {
+  const { messages, settings, retrying, signal, log } = options
+  const previous = latestCompaction(messages)
+  let current = applyCompaction(messages, previous)
+  let usage = await countTokens(current, options)
+
+  const limit = Math.floor((usage.contextWindow * settings.compactThreshold) / 100)
+  if (settings.compaction === 'off' || usage.tokens <= limit) return { messages: current, usage }
+
+  const tokensBefore = usage.tokens
+  let compaction: ContextCompaction | undefined
+  let summaryUsage: TurnUsage | undefined
+  for (const keptTurns of KEPT_TURN_COUNTS) {
+    const boundary = turnBoundary(messages, keptTurns)
+    if (boundary <= (previous?.droppedBefore ?? 0)) continue
+
+    // Tool results are usually most of a tool-heavy conversation
+    const alreadyCleared = previous?.clearedToolResultsBefore ?? 0
+    const clearedToolResultsBefore = Math.max(alreadyCleared, boundary)
+    compaction = {
+      clearedToolResultsBefore,
+      clearedToolResults: countToolResults(messages.slice(alreadyCleared, clearedToolResultsBefore)),
+      droppedBefore: previous?.droppedBefore ?? 0,
+      summary: previous?.summary,
+      tokensBefore,
+      tokensAfter: 0,
+    }
+    current = applyCompaction(messages, compaction)
+    usage = await countTokens(current, options)
+    if (usage.tokens <= limit) break
+
+    let summary = previous?.summary
+    if (settings.compaction === 'summarize') {
+      try {
+        // Summarize what Claude saw before, tool results included
+        const summarized = await retrying(() => summarize(applyCompaction(messages.slice(0, boundary), previous), options))
+        summary = summarized.summary
+        summaryUsage = summaryUsage ? addUsage(summaryUsage, summarized.usage) : summarized.usage
+      } catch (error) {
+        if (signal.aborted) throw error
+        log.warn('Summarizing older turns failed; keeping them', { error })
+        break
+      }
+    }
+    compaction = { ...compaction, droppedBefore: boundary, summary }
+    current = applyCompaction(messages, compaction)
+    usage = await countTokens(current, options)
+    if (usage.tokens <= limit) break
+  }
+
+  // A failed summary may leave nothing cleared or dropped
+  if (!compaction || (!compaction.clearedToolResults && compaction.droppedBefore === (previous?.droppedBefore ?? 0))) {
+    return { messages: current, usage }
+  }
+  compaction.tokensAfter = usage.tokens
+  log.info('Context compacted', {
+    tokensBefore,
+    tokensAfter: usage.tokens,
+    limit,
+    clearedToolResultsBefore: compaction.clearedToolResultsBefore,
+    clearedToolResults: compaction.clearedToolResults,
+    droppedBefore: compaction.droppedBefore,
+    summarized: !!compaction.summary,
+  })
+  return { messages: current, usage, compaction, summaryUsage }
+}
@@ -0,0 +1,100 @@
+import { type ChatSettings, DEFAULT_CHAT_SETTINGS } from './chat-settings'
+import { createMessageTree, treeFromMessages } from './message-tree'
+import type { Conversation, Message } from './types'
+
+const DB_NAME = 'express-mcp-playground'
+const DB_VERSION = 1
+const STORE_NAME = 'conversations'
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat'
+const MAX_TITLE_LENGTH = 60
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('updatedAt', 'updatedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Run a single request against the conversations store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = fn(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Derive a conversation title from its first user message
+ */
+export function titleFromMessages(messages: Message[]): string {
+  const firstUserMessage = messages.find(message => message.role === 'user')
+  // Messages with only attachments are titled after the first file
+  const text = (firstUserMessage?.content || firstUserMessage?.attachments?.[0]?.name)?.replace(/\s+/g, ' ').trim()
+  if (!text) return DEFAULT_CONVERSATION_TITLE
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text
+}
+
+export function createConversation(settings: ChatSettings = DEFAULT_CHAT_SETTINGS): Conversation {
+  const now = Date.now()
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    tree: createMessageTree(),
+    settings,
+  }
+}
+
+// Conversations saved before branching existed hold a flat message list
+type StoredConversation = Conversation | (Omit<Conversation, 'tree'> & { messages: Message[] })
+
+function fromStored(stored: StoredConversation): Conversation {
+  if ('tree' in stored) return stored
+  const { messages, ...rest } = stored
+  return { ...rest, tree: treeFromMessages(messages) }
+}
+
+/**
+ * List all conversations, most recently updated first
+ */
+export async function listConversations(): Promise<Conversation[]> {
+  const conversations = await withStore<StoredConversation[]>('readonly', store => store.getAll())
+  return conversations.map(fromStored).sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  const stored = await withStore<StoredConversation | undefined>('readonly', store => store.get(id))
+  return stored && fromStored(stored)
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  await withStore('readwrite', store => store.put(conversation))
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
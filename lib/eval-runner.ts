@@ -0,0 +1,237 @@
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import Anthropic from '@anthropic-ai/sdk'
+import { validateChatMessages } from './chat-request'
+import { DEFAULT_CHAT_SETTINGS, validateChatSettings } from './chat-settings'
+import { type MessageStreamClient, runChatTurn } from './chat-turn'
+import { type ActualToolCall, checkTurn, parseScenario, type Scenario } from './eval-scenarios'
+import { logger } from './logger'
+import { DEFAULT_MCP_URL, validateMcpServers } from './mcp-servers'
+import { startMockMcpServer } from './mock-mcp-server'
+import { createRecordingClient, createReplayClient, type StreamRecording } from './stream-recording'
+import type { ContextCompaction, Message } from './types'
+
+/**
+ * Runs scenario files through the chat turn logic the route uses, against the
+ * mock MCP server and recorded Anthropic streams.
+ */
+
+export const SCENARIOS_DIR = path.join(process.cwd(), 'evals', 'scenarios')
+export const RECORDINGS_DIR = path.join(process.cwd(), 'evals', 'recordings')
+
+const SCENARIO_EXTENSIONS = ['.yaml', '.yml', '.json']
+
+export interface TurnResult {
+  user: string
+  text: string
+  toolCalls: ActualToolCall[]
+  failures: string[]
+}
+
+export interface ScenarioResult {
+  id: string
+  name: string
+  description?: string
+  passed: boolean
+  durationMs: number
+  turns: TurnResult[]
+  // Problems with the scenario as a whole, such as a missing recording
+  failures: string[]
+}
+
+export interface RunScenariosOptions {
+  scenariosDir?: string
+  recordingsDir?: string
+  // Only run scenarios whose id contains this
+  filter?: string
+  // Call the API and save new recordings instead of replaying them
+  record?: { apiKey: string }
+}
+
+function recordingPath(recordingsDir: string, id: string): string {
+  return path.join(recordingsDir, `${id}.json`)
+}
+
+async function loadRecording(recordingsDir: string, id: string): Promise<StreamRecording> {
+  const file = recordingPath(recordingsDir, id)
+  let source: string
+  try {
+    source = await readFile(file, 'utf8')
+  } catch {
+    throw new Error(`No recording at ${path.relative(process.cwd(), file)}; run the scenario with --record`)
+  }
+  const recording = JSON.parse(source) as StreamRecording
+  if (!Array.isArray(recording.responses)) {
+    throw new Error(`${path.relative(process.cwd(), file)} has no responses`)
+  }
+  return recording
+}
+
+/**
+ * Run one turn and collect what the page would show for it
+ */
+async function runScenarioTurn(
+  scenario: Scenario,
+  options: { anthropic: MessageStreamClient; messages: Message[]; mcpUrl: string; index: number }
+): Promise<{ result: Omit<TurnResult, 'failures'>; failures: string[]; reply?: Message }> {
+  const failures: string[] = []
+  const text: string[] = []
+  const toolCalls = new Map<string, ActualToolCall>()
+  let compaction: ContextCompaction | undefined
+  const abortController = new AbortController()
+
+  const messages = validateChatMessages(options.messages)
+  const settings = validateChatSettings({
+    ...DEFAULT_CHAT_SETTINGS,
+    // Tools run against the mock server in approval mode; connector mode
+    // replays the tool blocks Anthropic returned when it was recorded
+    approveToolCalls: scenario.mcp === 'mock',
+    ...scenario.settings,
+  })
+  const servers = validateMcpServers([{
+    name: 'express',
+    url: options.mcpUrl,
+    autoApproveReadOnly: true,
+  }])
+  const user = options.messages[options.messages.length - 1].content
+  const invalid = (error: string) => ({ result: { user, text: '', toolCalls: [] }, failures: [error] })
+  if (!messages.ok) return invalid(messages.error)
+  if (!settings.ok) return invalid(settings.error)
+  if (!servers.ok) return invalid(servers.error)
+
+  const turn = await runChatTurn({
+    anthropic: options.anthropic,
+    request: { messages: messages.messages, servers: servers.servers, settings: settings.settings },
+    requestId: `eval-${scenario.id}-${options.index + 1}`,
+    signal: abortController.signal,
+    log: logger.child({ scenario: scenario.id, turn: options.index + 1 }),
+    // A failure should show up in the report, not be retried away
+    maxRetries: 0,
+    send: event => {
+      switch (event.type) {
+        case 'text':
+          text.push(event.content)
+          break
+        case 'tool_complete':
+          toolCalls.set(event.id, { name: event.name, args: event.input })
+          break
+        case 'tool_decision': {
+          const call = toolCalls.get(event.tool_use_id)
+          if (call && event.input) call.args = event.input
+          break
+        }
+        case 'context_compacted':
+          compaction = event.compaction
+          break
+        case 'tool_approval_required':
+          // Nobody is there to approve it, so stop instead of waiting
+          failures.push(`A tool call needed approval; mark it read-only or set autoApproveReadOnly`)
+          abortController.abort()
+          break
+        case 'error':
+          failures.push(`Turn failed: ${event.error}`)
+          break
+      }
+    },
+  })
+
+  const content = text.join('')
+  return {
+    result: { user, text: content, toolCalls: [...toolCalls.values()] },
+    failures,
+    // Later turns start from the compacted history, as they would in the page
+    reply: turn && { role: 'assistant', content, blocks: turn.content, ...(compaction && { compaction }) },
+  }
+}
+
+/**
+ * Run every turn of a scenario, replaying its recording unless `record` is set
+ */
+export async function runScenario(
+  scenario: Scenario,
+  options: { mcpUrl: string; recordingsDir?: string; record?: { apiKey: string } }
+): Promise<ScenarioResult> {
+  const recordingsDir = options.recordingsDir ?? RECORDINGS_DIR
+  const started = Date.now()
+  const result: ScenarioResult = {
+    id: scenario.id,
+    name: scenario.name,
+    description: scenario.description,
+    passed: false,
+    durationMs: 0,
+    turns: [],
+    failures: [],
+  }
+
+  let anthropic: MessageStreamClient
+  let recorder: ReturnType<typeof createRecordingClient> | undefined
+  if (options.record) {
+    recorder = createRecordingClient(new Anthropic({ apiKey: options.record.apiKey, maxRetries: 0 }))
+    anthropic = recorder.client
+  } else {
+    try {
+      anthropic = createReplayClient(await loadRecording(recordingsDir, scenario.id))
+    } catch (error) {
+      result.failures.push(error instanceof Error ? error.message : String(error))
+      result.durationMs = Date.now() - started
+      return result
+    }
+  }
+
+  // Connector mode never reaches the server, so the real URL keeps recordings faithful
+  const mcpUrl = scenario.mcp === 'mock' ? options.mcpUrl : DEFAULT_MCP_URL
+  const messages: Message[] = []
+  for (const [index, turn] of scenario.turns.entries()) {
+    messages.push({ role: 'user', content: turn.user })
+    const { result: turnResult, failures, reply } = await runScenarioTurn(scenario, { anthropic, messages, mcpUrl, index })
+    failures.push(...checkTurn(turn.expect, turnResult))
+    result.turns.push({ ...turnResult, failures })
+    // Later turns would only fail because of this one
+    if (!reply) break
+    messages.push(reply)
+  }
+
+  if (recorder) {
+    await writeFile(recordingPath(recordingsDir, scenario.id), `${JSON.stringify(recorder.recording(), null, 2)}\n`)
+  }
+
+  result.durationMs = Date.now() - started
+  result.passed = result.failures.length === 0 &&
+    result.turns.length === scenario.turns.length &&
+    result.turns.every(turn => turn.failures.length === 0)
+  return result
+}
+
+/**
+ * Load every scenario file and run them one after another against a fresh
+ * mock MCP server. Files that do not parse are reported as failures.
+ */
+export async function runScenarios(options: RunScenariosOptions = {}): Promise<ScenarioResult[]> {
+  const scenariosDir = options.scenariosDir ?? SCENARIOS_DIR
+  const files = (await readdir(scenariosDir))
+    .filter(file => SCENARIO_EXTENSIONS.includes(path.extname(file)))
+    .sort()
+
+  const mockServer = await startMockMcpServer()
+  const results: ScenarioResult[] = []
+  try {
+    for (const file of files) {
+      const id = path.basename(file, path.extname(file))
+      if (options.filter && !id.includes(options.filter)) continue
+
+      const parsed = parseScenario(await readFile(path.join(scenariosDir, file), 'utf8'), id)
+      if (!parsed.ok) {
+        results.push({ id, name: file, passed: false, durationMs: 0, turns: [], failures: [parsed.error] })
+        continue
+      }
+      results.push(await runScenario(parsed.scenario, {
+        mcpUrl: mockServer.url,
+        recordingsDir: options.recordingsDir,
+        record: options.record,
+      }))
+    }
+  } finally {
+    await mockServer.close()
+  }
+  return results
+}
@@ -0,0 +1,256 @@
+import { parse as parseYaml } from 'yaml'
+import type { ChatSettings } from './chat-settings'
+
+/**
+ * Scenario files for the regression runner: user turns with the tool calls
+ * and reply text each one should produce.
+ *
+ * Tool arguments are matched partially. A value is compared for equality
+ * unless it is a matcher object such as `{ $contains: "shoes" }`.
+ */
+
+export interface ExpectedToolCall {
+  name: string
+  args?: Record<string, unknown>
+}
+
+export interface TextAssertions {
+  // Case-insensitive substrings
+  contains: string[]
+  notContains: string[]
+  // Case-insensitive regular expression
+  matches?: string
+}
+
+export interface TurnExpectations {
+  // Calls that must happen in this order; other calls may come between them
+  toolCalls: ExpectedToolCall[]
+  maxToolCalls?: number
+  text?: TextAssertions
+}
+
+export interface ScenarioTurn {
+  user: string
+  expect: TurnExpectations
+}
+
+export interface Scenario {
+  // File name without extension; also names the recording
+  id: string
+  name: string
+  description?: string
+  // `mock` runs tools against the bundled mock server; `connector` replays
+  // MCP connector blocks from the recording
+  mcp: 'mock' | 'connector'
+  settings: Partial<ChatSettings>
+  turns: ScenarioTurn[]
+}
+
+export interface ActualToolCall {
+  name: string
+  args: Record<string, unknown>
+}
+
+export type ScenarioParseResult =
+  | { ok: true; scenario: Scenario }
+  | { ok: false; error: string }
+
+const MATCHERS = ['$equals', '$contains', '$matches', '$gt', '$gte', '$lt', '$lte', '$oneOf', '$exists', '$any'] as const
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (value === undefined) return []
+  if (typeof value === 'string') return [value]
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value
+  return undefined
+}
+
+function parseExpectations(value: unknown, label: string): { ok: true; expect: TurnExpectations } | { ok: false; error: string } {
+  if (value === undefined) return { ok: true, expect: { toolCalls: [] } }
+  if (!isRecord(value)) return { ok: false, error: `${label}.expect must be an object` }
+
+  const { toolCalls = [], maxToolCalls, text } = value
+  if (!Array.isArray(toolCalls) || !toolCalls.every(call => isRecord(call) && typeof call.name === 'string' && (call.args === undefined || isRecord(call.args)))) {
+    return { ok: false, error: `${label}.expect.toolCalls must be a list of { name, args? }` }
+  }
+  if (maxToolCalls !== undefined && (!Number.isInteger(maxToolCalls) || (maxToolCalls as number) < 0)) {
+    return { ok: false, error: `${label}.expect.maxToolCalls must be a non-negative integer` }
+  }
+
+  let textAssertions: TextAssertions | undefined
+  if (text !== undefined) {
+    if (!isRecord(text)) return { ok: false, error: `${label}.expect.text must be an object` }
+    const contains = toStringList(text.contains)
+    const notContains = toStringList(text.notContains)
+    if (!contains || !notContains) {
+      return { ok: false, error: `${label}.expect.text.contains and notContains must be strings or lists of strings` }
+    }
+    if (text.matches !== undefined) {
+      try {
+        new RegExp(String(text.matches))
+      } catch {
+        return { ok: false, error: `${label}.expect.text.matches is not a valid regular expression` }
+      }
+    }
+    textAssertions = { contains, notContains, matches: text.matches === undefined ? undefined : String(text.matches) }
+  }
+
+  return {
+    ok: true,
+    expect: {
+      toolCalls: toolCalls as ExpectedToolCall[],
+      maxToolCalls: maxToolCalls as number | undefined,
+      text: textAssertions,
+    },
+  }
+}
+
+/**
+ * Parse a YAML or JSON scenario file (JSON is valid YAML)
+ */
+export function parseScenario(source: string, id: string): ScenarioParseResult {
+  let value: unknown
+  try {
+    value = parseYaml(source)
+  } catch (error) {
+    return { ok: false, error: `Invalid YAML: ${error instanceof Error ? error.message : error}` }
+  }
+  if (!isRecord(value)) return { ok: false, error: 'A scenario must be an object' }
+
+  const { name, description, mcp = 'mock', settings = {}, turns } = value
+  if (typeof name !== 'string' || !name.trim()) return { ok: false, error: 'name is required' }
+  if (mcp !== 'mock' && mcp !== 'connector') return { ok: false, error: 'mcp must be "mock" or "connector"' }
+  if (!isRecord(settings)) return { ok: false, error: 'settings must be an object' }
+  if (!Array.isArray(turns) || turns.length === 0) return { ok: false, error: 'turns must be a non-empty list' }
+
+  const parsedTurns: ScenarioTurn[] = []
+  for (const [index, turn] of turns.entries()) {
+    const label = `turns[${index}]`
+    if (!isRecord(turn) || typeof turn.user !== 'string' || !turn.user.trim()) {
+      return { ok: false, error: `${label}.user must be a non-empty string` }
+    }
+    const expectations = parseExpectations(turn.expect, label)
+    if (!expectations.ok) return expectations
+    parsedTurns.push({ user: turn.user, expect: expectations.expect })
+  }
+
+  return {
+    ok: true,
+    scenario: {
+      id,
+      name,
+      description: typeof description === 'string' ? description : undefined,
+      mcp,
+      settings: settings as Partial<ChatSettings>,
+      turns: parsedTurns,
+    },
+  }
+}
+
+function isMatcher(value: unknown): value is Record<string, unknown> {
+  return isRecord(value) && Object.keys(value).length > 0 &&
+    Object.keys(value).every(key => (MATCHERS as readonly string[]).includes(key))
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value)
+}
+
+function applyMatcher(matcher: string, expected: unknown, actual: unknown): boolean {
+  switch (matcher) {
+    case '$equals':
+      return JSON.stringify(expected) === JSON.stringify(actual)
+    case '$contains':
+      if (typeof actual === 'string') return actual.toLowerCase().includes(String(expected).toLowerCase())
+      if (Array.isArray(actual)) return actual.some(item => JSON.stringify(item) === JSON.stringify(expected))
+      return false
+    case '$matches':
+      return typeof actual === 'string' && new RegExp(String(expected), 'i').test(actual)
+    case '$gt':
+      return typeof actual === 'number' && actual > Number(expected)
+    case '$gte':
+      return typeof actual === 'number' && actual >= Number(expected)
+    case '$lt':
+      return typeof actual === 'number' && actual < Number(expected)
+    case '$lte':
+      return typeof actual === 'number' && actual <= Number(expected)
+    case '$oneOf':
+      return Array.isArray(expected) && expected.some(option => JSON.stringify(option) === JSON.stringify(actual))
+    case '$exists':
+      return (actual !== undefined) === Boolean(expected)
+    case '$any':
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * Compare an actual value with an expected one, returning what did not match.
+ * Objects are matched partially: keys not in `expected` are ignored.
+ */
+export function matchValue(expected: unknown, actual: unknown, path: string): string[] {
+  if (isMatcher(expected)) {
+    return Object.entries(expected).flatMap(([matcher, operand]) =>
+      applyMatcher(matcher, operand, actual) ? [] : [`${path}: expected ${matcher} ${describe(operand)}, got ${describe(actual)}`]
+    )
+  }
+  if (isRecord(expected)) {
+    if (!isRecord(actual)) return [`${path}: expected an object, got ${describe(actual)}`]
+    return Object.entries(expected).flatMap(([key, value]) => matchValue(value, actual[key], `${path}.${key}`))
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return [`${path}: expected ${describe(expected)}, got ${describe(actual)}`]
+    }
+    return expected.flatMap((value, index) => matchValue(value, actual[index], `${path}[${index}]`))
+  }
+  return expected === actual ? [] : [`${path}: expected ${describe(expected)}, got ${describe(actual)}`]
+}
+
+/**
+ * Check one turn's tool calls and reply text against its expectations
+ */
+export function checkTurn(expect: TurnExpectations, actual: { text: string; toolCalls: ActualToolCall[] }): string[] {
+  const failures: string[] = []
+
+  // Each expected call takes the first matching call after the previous match
+  let next = 0
+  for (const expected of expect.toolCalls) {
+    let lastMismatch: string[] = []
+    const index = actual.toolCalls.findIndex((call, callIndex) => {
+      if (callIndex < next || call.name !== expected.name) return false
+      lastMismatch = expected.args ? matchValue(expected.args, call.args, `${call.name}.args`) : []
+      return lastMismatch.length === 0
+    })
+    if (index === -1) {
+      failures.push(lastMismatch.length > 0
+        ? lastMismatch.join('; ')
+        : `Expected a call to ${expected.name}${next > 0 ? ' after the previous expected call' : ''}`)
+    } else {
+      next = index + 1
+    }
+  }
+
+  if (expect.maxToolCalls !== undefined && actual.toolCalls.length > expect.maxToolCalls) {
+    failures.push(`Expected at most ${expect.maxToolCalls} tool calls, got ${actual.toolCalls.length}`)
+  }
+
+  if (expect.text) {
+    const text = actual.text.toLowerCase()
+    for (const phrase of expect.text.contains) {
+      if (!text.includes(phrase.toLowerCase())) failures.push(`Reply does not contain "${phrase}"`)
+    }
+    for (const phrase of expect.text.notContains) {
+      if (text.includes(phrase.toLowerCase())) failures.push(`Reply contains "${phrase}"`)
+    }
+    if (expect.text.matches && !new RegExp(expect.text.matches, 'i').test(actual.text)) {
+      failures.push(`Reply does not match /${expect.text.matches}/i`)
+    }
+  }
+
+  return failures
+}
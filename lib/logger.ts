@@ -0,0 +1,106 @@
+/**
+ * Structured server logger. Each entry is one JSON line with a timestamp,
+ * level and message plus any fields passed in.
+ *
+ * LOG_LEVEL sets the minimum level (`debug`, `info`, `warn`, `error`; default `info`).
+ * Secrets are always redacted. Message content (prompts, replies, tool
+ * inputs and results) is reduced to its length.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // Logger that adds `fields` to every entry, e.g. a request id
+  child(fields: LogFields): Logger
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const SECRET_KEY_PATTERN = /authorization|cookie|secret|password|passcode|verifier|api[-_]?key|^token$|(access|refresh|id)[-_]?token/i
+const CONTENT_KEY_PATTERN = /^(content|text|thinking|input|messages|system|systemPrompt|prompt|result|arguments|blocks)$/
+// Credentials that may appear inside free text such as error messages
+const SECRET_VALUE_PATTERN = /sk-ant-[\w-]+|Bearer\s+[\w.~+/-]+=*/g
+
+const MAX_DEPTH = 6
+
+function minimumLevel(): number {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined
+  return LEVELS[level ?? 'info'] ?? LEVELS.info
+}
+
+function redactString(value: string): string {
+  return value.replace(SECRET_VALUE_PATTERN, '[REDACTED]')
+}
+
+function contentSummary(value: unknown): string {
+  const length = typeof value === 'string' ? value.length : JSON.stringify(value ?? null).length
+  return `[${length} chars]`
+}
+
+/**
+ * Copy a value for logging with secrets and message content removed
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value)
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...('status' in value && { status: value.status }),
+      ...(value.stack && { stack: redactString(value.stack) }),
+    }
+  }
+  if (!value || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return '[Truncated]'
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1))
+
+  const copy: LogFields = {}
+  for (const [key, item] of Object.entries(value)) {
+    if (SECRET_KEY_PATTERN.test(key)) {
+      copy[key] = '[REDACTED]'
+    } else if (CONTENT_KEY_PATTERN.test(key)) {
+      copy[key] = contentSummary(item)
+    } else {
+      copy[key] = redact(item, depth + 1)
+    }
+  }
+  return copy
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVELS[level] < minimumLevel()) return
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(redact(fields) as LogFields),
+  })
+  if (level === 'error') {
+    console.error(line)
+  } else if (level === 'warn') {
+    console.warn(line)
+  } else {
+    console.log(line)
+  }
+}
+
+export function createLogger(baseFields: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) =>
+    write(level, message, { ...baseFields, ...fields })
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: fields => createLogger({ ...baseFields, ...fields }),
+  }
+}
+
+export const logger: Logger = createLogger()
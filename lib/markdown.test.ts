@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { closeOpenCodeFence } from './markdown'
+
+describe('closeOpenCodeFence', () => {
+  it('leaves text without fences alone', () => {
+    expect(closeOpenCodeFence('Some `inline` code\n- a list')).toBe('Some `inline` code\n- a list')
+  })
+
+  it('leaves closed fences alone', () => {
+    const text = '```js\nconst a = 1\n```\nAfter'
+    expect(closeOpenCodeFence(text)).toBe(text)
+  })
+
+  it('closes an open backtick fence', () => {
+    expect(closeOpenCodeFence('Look:\n```ts\nconst a')).toBe('Look:\n```ts\nconst a\n```')
+  })
+
+  it('does not add a blank line when the text ends with a newline', () => {
+    expect(closeOpenCodeFence('```\nconst a\n')).toBe('```\nconst a\n```')
+  })
+
+  it('closes an open tilde fence with tildes', () => {
+    expect(closeOpenCodeFence('~~~python\nprint(1)')).toBe('~~~python\nprint(1)\n~~~')
+  })
+
+  it('is not closed by a fence of the other character', () => {
+    expect(closeOpenCodeFence('~~~\n```\nstill code')).toBe('~~~\n```\nstill code\n~~~')
+    expect(closeOpenCodeFence('```\n~~~\nstill code')).toBe('```\n~~~\nstill code\n```')
+  })
+
+  it('closes a longer fence with one of the same length', () => {
+    expect(closeOpenCodeFence('````md\n```js\nx\n```\nmore')).toBe('````md\n```js\nx\n```\nmore\n````')
+  })
+
+  it('accepts a longer closing fence', () => {
+    const text = '```\ncode\n`````\nAfter'
+    expect(closeOpenCodeFence(text)).toBe(text)
+  })
+
+  it('does not treat a fence with an info string as closing', () => {
+    expect(closeOpenCodeFence('```\ncode\n```js')).toBe('```\ncode\n```js\n```')
+  })
+
+  it('opens fences indented by up to three spaces only', () => {
+    expect(closeOpenCodeFence('   ```\ncode')).toBe('   ```\ncode\n```')
+    expect(closeOpenCodeFence('    ```\ncode')).toBe('    ```\ncode')
+  })
+
+  it('tracks fences opened again after closing', () => {
+    expect(closeOpenCodeFence('```\na\n```\ntext\n~~~~\nb')).toBe('```\na\n```\ntext\n~~~~\nb\n~~~~')
+  })
+})
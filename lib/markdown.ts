@@ -0,0 +1,28 @@
+/**
+ * Helpers for rendering markdown that is still streaming in
+ */
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/
+
+/**
+ * Close a code fence left open by a partial response, so the rest of the
+ * text renders as code instead of flipping to prose until the fence ends
+ */
+export function closeOpenCodeFence(text: string): string {
+  let openFence: string | null = null
+
+  for (const line of text.split('\n')) {
+    const match = line.match(FENCE_PATTERN)
+    if (!match) continue
+
+    const fence = match[1]
+    if (openFence === null) {
+      openFence = fence
+    } else if (fence[0] === openFence[0] && fence.length >= openFence.length && line.trim() === fence) {
+      openFence = null
+    }
+  }
+
+  if (openFence === null) return text
+  return `${text}${text.endsWith('\n') ? '' : '\n'}${openFence}`
+}
@@ -0,0 +1,91 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+
+/**
+ * Tool metadata returned by an MCP server's `tools/list`
+ */
+export interface McpToolInfo {
+  name: string
+  description?: string
+  inputSchema: Record<string, unknown>
+  // Server hints that the tool does not modify its environment
+  readOnly?: boolean
+}
+
+export interface McpConnectionOptions {
+  url: string
+  authorization_token?: string
+}
+
+/**
+ * Thrown when the server running the tools cannot connect to an MCP server.
+ * The original error is kept as `cause`.
+ */
+export class McpConnectionError extends Error {
+  constructor(readonly serverName: string, cause: unknown) {
+    super(`Could not connect to MCP server "${serverName}": ${cause instanceof Error ? cause.message : cause}`, { cause })
+    this.name = 'McpConnectionError'
+  }
+}
+
+/**
+ * Connect to an MCP server over Streamable HTTP.
+ * The caller is responsible for closing the client.
+ */
+export async function connectMcpClient({ url, authorization_token }: McpConnectionOptions): Promise<Client> {
+  const transport = new StreamableHTTPClientTransport(new URL(url), {
+    requestInit: authorization_token
+      ? { headers: { Authorization: `Bearer ${authorization_token}` } }
+      : undefined,
+  })
+  const client = new Client({ name: 'express-mcp-playground', version: '1.0.0' })
+
+  await client.connect(transport)
+  return client
+}
+
+/**
+ * Connect to an MCP server and run `fn` with the client.
+ * The connection is always closed afterwards.
+ */
+export async function withMcpClient<T>(
+  options: McpConnectionOptions,
+  fn: (client: Client) => Promise<T>
+): Promise<T> {
+  const client = await connectMcpClient(options)
+  try {
+    return await fn(client)
+  } finally {
+    await client.close().catch(() => {})
+  }
+}
+
+/**
+ * List every tool exposed by a connected client, following pagination
+ */
+export async function listClientTools(client: Client): Promise<McpToolInfo[]> {
+  const tools: McpToolInfo[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await client.listTools(cursor ? { cursor } : undefined)
+    for (const tool of page.tools) {
+      tools.push({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        readOnly: tool.annotations?.readOnlyHint === true,
+      })
+    }
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return tools
+}
+
+/**
+ * List every tool exposed by an MCP server
+ */
+export async function listMcpTools(options: McpConnectionOptions): Promise<McpToolInfo[]> {
+  return withMcpClient(options, listClientTools)
+}
@@ -0,0 +1,76 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import { withMcpClient, type McpConnectionOptions } from './mcp-client'
+
+// MCP methods the inspector may call directly
+export const INSPECTOR_METHODS = [
+  'tools/list',
+  'tools/call',
+  'resources/list',
+  'resources/read',
+  'prompts/list',
+  'prompts/get',
+] as const
+
+export type InspectorMethod = (typeof INSPECTOR_METHODS)[number]
+
+export interface InspectorError {
+  code?: number
+  message: string
+  data?: unknown
+}
+
+export type InspectorResponse =
+  | { ok: true; result: unknown; durationMs: number }
+  | { ok: false; error: InspectorError; durationMs: number }
+
+export function isInspectorMethod(value: unknown): value is InspectorMethod {
+  return INSPECTOR_METHODS.includes(value as InspectorMethod)
+}
+
+/**
+ * Run a single MCP request against a server and time it.
+ * JSON-RPC errors are returned rather than thrown so they can be shown as-is.
+ */
+export async function runInspectorRequest(
+  connection: McpConnectionOptions,
+  method: InspectorMethod,
+  params: Record<string, unknown> = {}
+): Promise<InspectorResponse> {
+  const startedAt = performance.now()
+  const elapsed = () => Math.round(performance.now() - startedAt)
+
+  try {
+    const result = await withMcpClient(connection, async (client) => {
+      switch (method) {
+        case 'tools/list':
+          return client.listTools(params)
+        case 'tools/call':
+          return client.callTool({
+            name: String(params.name),
+            arguments: (params.arguments ?? {}) as Record<string, unknown>,
+          })
+        case 'resources/list':
+          return client.listResources(params)
+        case 'resources/read':
+          return client.readResource({ uri: String(params.uri) })
+        case 'prompts/list':
+          return client.listPrompts(params)
+        case 'prompts/get':
+          return client.getPrompt({
+            name: String(params.name),
+            arguments: (params.arguments ?? {}) as Record<string, string>,
+          })
+      }
+    })
+    return { ok: true, result, durationMs: elapsed() }
+  } catch (error) {
+    if (error instanceof McpError) {
+      return { ok: false, error: { code: error.code, message: error.message, data: error.data }, durationMs: elapsed() }
+    }
+    return {
+      ok: false,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' },
+      durationMs: elapsed(),
+    }
+  }
+}
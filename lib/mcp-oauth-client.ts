@@ -0,0 +1,103 @@
+import type { McpOAuthFlow, McpOAuthGrant } from './mcp-oauth'
+import type { McpServerConfig } from './mcp-servers'
+
+/**
+ * Browser side of the MCP authorization flow. The flow runs in a popup whose
+ * callback page (/oauth/callback) posts the code back to this window.
+ */
+
+export const MCP_OAUTH_MESSAGE = 'mcp-oauth-callback'
+
+export interface McpOAuthCallbackMessage {
+  type: typeof MCP_OAUTH_MESSAGE
+  state: string | null
+  code: string | null
+  error: string | null
+}
+
+// Refresh tokens a minute before they expire
+const REFRESH_MARGIN_MS = 60_000
+
+async function postOAuth<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch('/api/express-mcp/oauth', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const result = await response.json()
+  if (!response.ok) throw new Error(result.error || 'OAuth request failed')
+  return result as T
+}
+
+function waitForCallback(popup: Window, state: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage)
+      clearInterval(closedTimer)
+    }
+    const onMessage = (event: MessageEvent<McpOAuthCallbackMessage>) => {
+      if (event.origin !== window.location.origin || event.data?.type !== MCP_OAUTH_MESSAGE) return
+      if (event.data.state !== state) return
+      cleanup()
+      if (event.data.code) {
+        resolve(event.data.code)
+      } else {
+        reject(new Error(event.data.error || 'Authorization was not granted'))
+      }
+    }
+    const closedTimer = setInterval(() => {
+      if (popup.closed) {
+        cleanup()
+        reject(new Error('Sign-in window was closed'))
+      }
+    }, 500)
+    window.addEventListener('message', onMessage)
+  })
+}
+
+/**
+ * Run the OAuth flow for a server and return it with the new token.
+ * Must be called from a click handler so the popup is not blocked.
+ */
+export async function authorizeMcpServer(server: McpServerConfig): Promise<McpServerConfig> {
+  const popup = window.open('', 'mcp-oauth', 'width=520,height=720')
+  if (!popup) throw new Error('Allow popups to sign in')
+
+  try {
+    const { authorizationUrl, flow } = await postOAuth<{ authorizationUrl: string; flow: McpOAuthFlow }>({
+      action: 'start',
+      serverUrl: server.url,
+    })
+    popup.location.href = authorizationUrl
+    const code = await waitForCallback(popup, flow.state)
+    const grant = await postOAuth<McpOAuthGrant>({ action: 'finish', flow, code })
+    return { ...server, authorization_token: grant.accessToken, oauth: grant.session }
+  } catch (error) {
+    popup.close()
+    throw error
+  }
+}
+
+export function needsRefresh(server: McpServerConfig): boolean {
+  const expiresAt = server.oauth?.expiresAt
+  return !!server.oauth?.refreshToken && expiresAt !== undefined && expiresAt - REFRESH_MARGIN_MS < Date.now()
+}
+
+/**
+ * Refresh the tokens of enabled servers that are about to expire.
+ * Returns the same array when nothing changed; failed refreshes keep the old token.
+ */
+export async function refreshExpiredServers(servers: McpServerConfig[]): Promise<McpServerConfig[]> {
+  if (!servers.some(server => server.enabled && needsRefresh(server))) return servers
+
+  return Promise.all(servers.map(async server => {
+    if (!server.enabled || !needsRefresh(server)) return server
+    try {
+      const grant = await postOAuth<McpOAuthGrant>({ action: 'refresh', server })
+      return { ...server, authorization_token: grant.accessToken, oauth: grant.session }
+    } catch (error) {
+      console.error(`Failed to refresh the token for ${server.name}:`, error instanceof Error ? error.message : error)
+      return server
+    }
+  }))
+}
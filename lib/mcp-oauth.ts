@@ -0,0 +1,187 @@
+import {
+  discoverAuthorizationServerMetadata,
+  discoverOAuthServerInfo,
+  exchangeAuthorization,
+  refreshAuthorization,
+  registerClient,
+  startAuthorization,
+} from '@modelcontextprotocol/sdk/client/auth.js'
+import type { OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js'
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { McpOAuthSession } from './mcp-servers'
+import { checkMcpUrl } from './url-policy'
+
+/**
+ * Server side of the MCP authorization flow (OAuth 2.1 with PKCE and dynamic
+ * client registration). The browser keeps the flow state and the resulting
+ * tokens; these functions only talk to the authorization server.
+ */
+
+/**
+ * Everything needed to finish a flow, held by the browser until the callback
+ */
+export interface McpOAuthFlow {
+  serverUrl: string
+  authorizationServerUrl: string
+  clientId: string
+  clientSecret?: string
+  resource?: string
+  redirectUri: string
+  state: string
+  codeVerifier: string
+}
+
+export interface McpOAuthGrant {
+  accessToken: string
+  session: McpOAuthSession
+}
+
+const MAX_REDIRECTS = 5
+
+// Refuse to contact private hosts, like any other MCP URL. Redirects are
+// followed here rather than by fetch, so every hop is checked.
+const policyFetch: FetchLike = async (url, init) => {
+  let target = url.toString()
+  let requestInit = init
+  for (let redirects = 0; ; redirects++) {
+    const policy = await checkMcpUrl(target)
+    if (!policy.ok) throw new Error(policy.error)
+
+    const response = await fetch(target, { ...requestInit, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) return response
+    await response.body?.cancel()
+    if (redirects === MAX_REDIRECTS) throw new Error('The authorization server redirected too many times')
+
+    target = new URL(location, target).toString()
+    // As fetch does: a 303, or a 301 or 302 after a POST, continues as a GET
+    if (response.status === 303 || (response.status <= 302 && requestInit?.method === 'POST')) {
+      requestInit = { ...requestInit, method: 'GET', body: undefined }
+    }
+  }
+}
+
+/**
+ * Error message safe to return to the browser. Responses the SDK cannot
+ * parse end up verbatim in its errors, and they may come from any host the
+ * authorization server points at.
+ */
+export function describeOAuthError(error: unknown): string {
+  if (error instanceof SyntaxError) return 'The authorization server returned invalid JSON'
+  if (!(error instanceof Error)) return 'Unknown error'
+  if (error.message.includes('Raw body:')) {
+    const status = error.message.match(/^HTTP (\d{3})/)?.[1]
+    return `The authorization server returned an unexpected response${status ? ` (HTTP ${status})` : ''}`
+  }
+  return error.message
+}
+
+async function getMetadata(authorizationServerUrl: string) {
+  const metadata = await discoverAuthorizationServerMetadata(authorizationServerUrl, { fetchFn: policyFetch })
+  if (!metadata) throw new Error('Authorization server metadata not found')
+  return metadata
+}
+
+function toGrant(tokens: OAuthTokens, session: Omit<McpOAuthSession, 'refreshToken' | 'expiresAt'>): McpOAuthGrant {
+  return {
+    accessToken: tokens.access_token,
+    session: {
+      ...session,
+      refreshToken: tokens.refresh_token,
+      expiresAt: tokens.expires_in !== undefined ? Date.now() + tokens.expires_in * 1000 : undefined,
+    },
+  }
+}
+
+/**
+ * Discover the server's authorization server, register a client and build the
+ * authorization URL
+ */
+export async function startMcpOAuth(
+  serverUrl: string,
+  redirectUri: string
+): Promise<{ authorizationUrl: string; flow: McpOAuthFlow }> {
+  const { authorizationServerUrl, authorizationServerMetadata: metadata, resourceMetadata } =
+    await discoverOAuthServerInfo(serverUrl, { fetchFn: policyFetch })
+  if (!metadata) {
+    throw new Error('This server does not advertise an OAuth authorization server')
+  }
+  if (!metadata.registration_endpoint) {
+    throw new Error('The authorization server does not support dynamic client registration')
+  }
+
+  const client = await registerClient(authorizationServerUrl, {
+    metadata,
+    clientMetadata: {
+      client_name: 'Express MCP Playground',
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    },
+    fetchFn: policyFetch,
+  })
+
+  const resource = resourceMetadata?.resource ?? serverUrl
+  const state = crypto.randomUUID()
+  const { authorizationUrl, codeVerifier } = await startAuthorization(authorizationServerUrl, {
+    metadata,
+    clientInformation: client,
+    redirectUrl: redirectUri,
+    scope: resourceMetadata?.scopes_supported?.join(' '),
+    state,
+    resource: new URL(resource),
+  })
+
+  return {
+    authorizationUrl: authorizationUrl.toString(),
+    flow: {
+      serverUrl,
+      authorizationServerUrl,
+      clientId: client.client_id,
+      clientSecret: client.client_secret,
+      resource,
+      redirectUri,
+      state,
+      codeVerifier,
+    },
+  }
+}
+
+/**
+ * Exchange the authorization code from the callback for tokens
+ */
+export async function finishMcpOAuth(flow: McpOAuthFlow, code: string): Promise<McpOAuthGrant> {
+  const metadata = await getMetadata(flow.authorizationServerUrl)
+  const tokens = await exchangeAuthorization(flow.authorizationServerUrl, {
+    metadata,
+    clientInformation: { client_id: flow.clientId, client_secret: flow.clientSecret },
+    authorizationCode: code,
+    codeVerifier: flow.codeVerifier,
+    redirectUri: flow.redirectUri,
+    resource: flow.resource ? new URL(flow.resource) : undefined,
+    fetchFn: policyFetch,
+  })
+
+  const { authorizationServerUrl, clientId, clientSecret, resource } = flow
+  return toGrant(tokens, { authorizationServerUrl, clientId, clientSecret, resource })
+}
+
+/**
+ * Get a new access token with the session's refresh token
+ */
+export async function refreshMcpOAuth(session: McpOAuthSession): Promise<McpOAuthGrant> {
+  if (!session.refreshToken) throw new Error('No refresh token; sign in again')
+
+  const metadata = await getMetadata(session.authorizationServerUrl)
+  const tokens = await refreshAuthorization(session.authorizationServerUrl, {
+    metadata,
+    clientInformation: { client_id: session.clientId, client_secret: session.clientSecret },
+    refreshToken: session.refreshToken,
+    resource: session.resource ? new URL(session.resource) : undefined,
+    fetchFn: policyFetch,
+  })
+
+  const { authorizationServerUrl, clientId, clientSecret, resource } = session
+  return toGrant(tokens, { authorizationServerUrl, clientId, clientSecret, resource })
+}
@@ -0,0 +1,189 @@
+// Default Express MCP URL
+export const DEFAULT_MCP_URL = 'https://penumbra--express-mcp-mcp-server.modal.run/mcp'
+
+export const MAX_MCP_SERVERS = 10
+
+/**
+ * OAuth state of a server signed in through the MCP authorization flow.
+ * The access token itself is kept in `authorization_token`.
+ */
+export interface McpOAuthSession {
+  authorizationServerUrl: string
+  clientId: string
+  clientSecret?: string
+  resource?: string
+  refreshToken?: string
+  // Epoch milliseconds when the access token expires
+  expiresAt?: number
+}
+
+/**
+ * An MCP server registered in the playground.
+ * Stored client-side and sent with every chat request.
+ */
+export interface McpServerConfig {
+  id: string
+  name: string
+  url: string
+  enabled: boolean
+  authorization_token?: string
+  // Tools Claude may call; undefined allows every tool
+  allowedTools?: string[]
+  // In approval mode, run tools marked read-only without asking
+  autoApproveReadOnly?: boolean
+  // Set when the token came from the OAuth flow, so it can be refreshed
+  oauth?: McpOAuthSession
+}
+
+/**
+ * Server entry in the format expected by the Anthropic MCP connector
+ */
+export interface McpServerDefinition {
+  type: 'url'
+  url: string
+  name: string
+  authorization_token?: string
+  tool_configuration?: {
+    enabled?: boolean
+    allowed_tools?: string[]
+  }
+}
+
+export const DEFAULT_MCP_SERVERS: McpServerConfig[] = [
+  { id: 'express', name: 'express', url: DEFAULT_MCP_URL, enabled: true },
+]
+
+export type McpServersValidation =
+  | { ok: true; servers: McpServerConfig[] }
+  | { ok: false; error: string }
+
+function isOAuthSession(value: unknown): value is McpOAuthSession {
+  if (!value || typeof value !== 'object') return false
+  const { authorizationServerUrl, clientId, clientSecret, resource, refreshToken, expiresAt } = value as Record<string, unknown>
+  return (
+    typeof authorizationServerUrl === 'string' &&
+    typeof clientId === 'string' &&
+    (clientSecret === undefined || typeof clientSecret === 'string') &&
+    (resource === undefined || typeof resource === 'string') &&
+    (refreshToken === undefined || typeof refreshToken === 'string') &&
+    (expiresAt === undefined || typeof expiresAt === 'number')
+  )
+}
+
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a list of MCP servers received from the client
+ */
+export function validateMcpServers(value: unknown): McpServersValidation {
+  if (!Array.isArray(value)) {
+    return { ok: false, error: 'mcpServers must be an array' }
+  }
+  if (value.length > MAX_MCP_SERVERS) {
+    return { ok: false, error: `At most ${MAX_MCP_SERVERS} MCP servers are allowed` }
+  }
+
+  const servers: McpServerConfig[] = []
+  const names = new Set<string>()
+
+  for (const [index, item] of value.entries()) {
+    const label = `mcpServers[${index}]`
+    if (!item || typeof item !== 'object') {
+      return { ok: false, error: `${label} must be an object` }
+    }
+
+    const { id, name, url, enabled, authorization_token, allowedTools, autoApproveReadOnly, oauth } = item as Record<string, unknown>
+    if (typeof name !== 'string' || !name.trim()) {
+      return { ok: false, error: `${label}.name is required` }
+    }
+    if (names.has(name.trim())) {
+      return { ok: false, error: `Duplicate MCP server name "${name.trim()}"` }
+    }
+    if (typeof url !== 'string' || !isHttpUrl(url)) {
+      return { ok: false, error: `${label}.url must be an http(s) URL` }
+    }
+    if (authorization_token !== undefined && typeof authorization_token !== 'string') {
+      return { ok: false, error: `${label}.authorization_token must be a string` }
+    }
+    if (
+      allowedTools !== undefined &&
+      (!Array.isArray(allowedTools) || !allowedTools.every(tool => typeof tool === 'string'))
+    ) {
+      return { ok: false, error: `${label}.allowedTools must be an array of tool names` }
+    }
+    if (oauth !== undefined && !isOAuthSession(oauth)) {
+      return { ok: false, error: `${label}.oauth is malformed` }
+    }
+
+    names.add(name.trim())
+    servers.push({
+      id: typeof id === 'string' && id ? id : name.trim(),
+      name: name.trim(),
+      url,
+      enabled: enabled !== false,
+      authorization_token: authorization_token?.trim() || undefined,
+      allowedTools: allowedTools as string[] | undefined,
+      autoApproveReadOnly: autoApproveReadOnly === true,
+      oauth: oauth as McpOAuthSession | undefined,
+    })
+  }
+
+  return { ok: true, servers }
+}
+
+/**
+ * Convert enabled servers to `mcp_servers` entries for the Messages API
+ */
+export function toMcpServerDefinitions(servers: McpServerConfig[]): McpServerDefinition[] {
+  return servers
+    .filter(server => server.enabled)
+    .map(server => ({
+      type: 'url' as const,
+      url: server.url,
+      name: server.name,
+      ...(server.authorization_token && { authorization_token: server.authorization_token }),
+      ...(server.allowedTools && {
+        tool_configuration: { enabled: true, allowed_tools: server.allowedTools },
+      }),
+    }))
+}
+
+/**
+ * Server config to send to the API. Refresh credentials stay in the browser.
+ */
+export function withoutOAuthSession({ oauth: _oauth, ...server }: McpServerConfig): McpServerConfig {
+  return server
+}
+
+const STORAGE_KEY = 'express-mcp-servers'
+
+/**
+ * Load the saved server list from localStorage (browser only)
+ */
+export function loadMcpServers(): McpServerConfig[] {
+  if (typeof window === 'undefined') return DEFAULT_MCP_SERVERS
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (!stored) return DEFAULT_MCP_SERVERS
+    const parsed: unknown = JSON.parse(stored)
+    if (!Array.isArray(parsed)) return DEFAULT_MCP_SERVERS
+    // Drop only the entries that no longer validate, so the others keep their tokens
+    return parsed.reduce<McpServerConfig[]>((servers, entry) => {
+      const validation = validateMcpServers([...servers, entry])
+      return validation.ok ? validation.servers : servers
+    }, [])
+  } catch {
+    return DEFAULT_MCP_SERVERS
+  }
+}
+
+export function saveMcpServers(servers: McpServerConfig[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(servers))
+}
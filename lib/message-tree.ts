@@ -0,0 +1,114 @@
+import type { Message } from './types'
+
+/**
+ * Conversations are stored as a tree of messages so that regenerated answers
+ * and edited prompts become sibling branches instead of replacing history.
+ * Each node remembers which child is shown, so the visible conversation is
+ * the path from the active root down through the active children.
+ */
+
+export interface MessageNode {
+  id: string
+  parentId: string | null
+  message: Message
+  childIds: string[]
+  // Child on the active path, if any
+  activeChildId?: string
+}
+
+export interface MessageTree {
+  nodes: Record<string, MessageNode>
+  rootIds: string[]
+  activeRootId?: string
+}
+
+export function createMessageTree(): MessageTree {
+  return { nodes: {}, rootIds: [] }
+}
+
+/**
+ * Build a single-branch tree from a flat list of messages
+ */
+export function treeFromMessages(messages: Message[]): MessageTree {
+  let tree = createMessageTree()
+  let parentId: string | null = null
+  for (const message of messages) {
+    const added = addMessage(tree, parentId, message)
+    tree = added.tree
+    parentId = added.id
+  }
+  return tree
+}
+
+/**
+ * Ids of a node's siblings in creation order, the node itself included
+ */
+export function getSiblingIds(tree: MessageTree, id: string): string[] {
+  const parentId = tree.nodes[id]?.parentId
+  if (parentId === undefined) return []
+  return parentId === null ? tree.rootIds : tree.nodes[parentId].childIds
+}
+
+/**
+ * Nodes from the root down to (and including) the given node
+ */
+export function getPathTo(tree: MessageTree, id: string | null): MessageNode[] {
+  const path: MessageNode[] = []
+  for (let node = id ? tree.nodes[id] : undefined; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    path.unshift(node)
+  }
+  return path
+}
+
+/**
+ * Nodes of the branch currently shown
+ */
+export function getActivePath(tree: MessageTree): MessageNode[] {
+  const path: MessageNode[] = []
+  for (let id = tree.activeRootId; id; id = tree.nodes[id].activeChildId) {
+    path.push(tree.nodes[id])
+  }
+  return path
+}
+
+export function getActiveMessages(tree: MessageTree): Message[] {
+  return getActivePath(tree).map(node => node.message)
+}
+
+/**
+ * Add a message under `parentId` (null for a new root) and make it the active branch
+ */
+export function addMessage(
+  tree: MessageTree,
+  parentId: string | null,
+  message: Message
+): { tree: MessageTree; id: string } {
+  const id = crypto.randomUUID()
+  const nodes = { ...tree.nodes, [id]: { id, parentId, message, childIds: [] } }
+
+  if (parentId === null) {
+    return { tree: { nodes, rootIds: [...tree.rootIds, id], activeRootId: id }, id }
+  }
+
+  const parent = tree.nodes[parentId]
+  nodes[parentId] = { ...parent, childIds: [...parent.childIds, id], activeChildId: id }
+  return { tree: { ...tree, nodes }, id }
+}
+
+export function updateMessage(tree: MessageTree, id: string, message: Message): MessageTree {
+  const node = tree.nodes[id]
+  if (!node) return tree
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, message } } }
+}
+
+/**
+ * Show the branch starting at the given node
+ */
+export function selectBranch(tree: MessageTree, id: string): MessageTree {
+  const node = tree.nodes[id]
+  if (!node) return tree
+  if (node.parentId === null) return { ...tree, activeRootId: id }
+
+  const parent = tree.nodes[node.parentId]
+  return { ...tree, nodes: { ...tree.nodes, [parent.id]: { ...parent, activeChildId: id } } }
+}
@@ -0,0 +1,157 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * Local stand-in for the Express MCP server, with a small fixed catalog.
+ * Used by the scenario runner so tool calls work without the network.
+ */
+
+export interface MockProduct {
+  id: string
+  name: string
+  category: string
+  price: number
+  colors: string[]
+  inStock: boolean
+}
+
+export const MOCK_PRODUCTS: MockProduct[] = [
+  { id: 'p-100', name: 'Trail Runner 2', category: 'shoes', price: 89, colors: ['red', 'black'], inStock: true },
+  { id: 'p-101', name: 'Road Racer Pro', category: 'shoes', price: 149, colors: ['white', 'red'], inStock: true },
+  { id: 'p-102', name: 'City Walker', category: 'shoes', price: 65, colors: ['brown'], inStock: false },
+  { id: 'p-200', name: 'Merino Crew Tee', category: 'shirts', price: 45, colors: ['grey', 'navy'], inStock: true },
+  { id: 'p-201', name: 'Linen Button-Down', category: 'shirts', price: 72, colors: ['white'], inStock: true },
+  { id: 'p-300', name: 'Packable Rain Shell', category: 'jackets', price: 129, colors: ['yellow', 'black'], inStock: true },
+]
+
+const MOCK_ORDERS: Record<string, { status: string; items: string[]; eta?: string }> = {
+  'A-1001': { status: 'shipped', items: ['p-100'], eta: '2025-06-12' },
+  'A-1002': { status: 'processing', items: ['p-200', 'p-201'] },
+}
+
+const TOOLS = [
+  {
+    name: 'search_products',
+    description: 'Search the catalog by keyword, with optional category, color and maximum price filters',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords to match against product names and categories' },
+        category: { type: 'string', enum: ['shoes', 'shirts', 'jackets'] },
+        color: { type: 'string' },
+        max_price: { type: 'number', description: 'Maximum price in USD' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_product',
+    description: 'Get one product by id',
+    inputSchema: {
+      type: 'object',
+      properties: { id: { type: 'string' } },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'get_order_status',
+    description: 'Look up the status of an order',
+    inputSchema: {
+      type: 'object',
+      properties: { order_id: { type: 'string' } },
+      required: ['order_id'],
+    },
+  },
+]
+
+function textResult(value: unknown, isError = false) {
+  return { content: [{ type: 'text' as const, text: JSON.stringify(value, null, 2) }], isError }
+}
+
+function searchProducts(args: Record<string, unknown>) {
+  const words = String(args.query ?? '').toLowerCase().split(/\s+/).filter(Boolean)
+  return MOCK_PRODUCTS.filter(product => {
+    const haystack = `${product.name} ${product.category} ${product.colors.join(' ')}`.toLowerCase()
+    // Plurals in the query ("shoes", "shirts") still match
+    const matchesQuery = words.some(word => haystack.includes(word) || haystack.includes(word.replace(/s$/, '')))
+    return (
+      matchesQuery &&
+      (args.category === undefined || product.category === args.category) &&
+      (args.color === undefined || product.colors.includes(String(args.color).toLowerCase())) &&
+      (typeof args.max_price !== 'number' || product.price <= args.max_price)
+    )
+  })
+}
+
+function callTool(name: string, args: Record<string, unknown>) {
+  switch (name) {
+    case 'search_products':
+      return textResult({ results: searchProducts(args) })
+    case 'get_product': {
+      const product = MOCK_PRODUCTS.find(item => item.id === args.id)
+      return product ? textResult(product) : textResult({ error: `No product with id ${args.id}` }, true)
+    }
+    case 'get_order_status': {
+      const order = MOCK_ORDERS[String(args.order_id)]
+      return order
+        ? textResult({ order_id: args.order_id, ...order })
+        : textResult({ error: `No order with id ${args.order_id}` }, true)
+    }
+    default:
+      return textResult({ error: `Unknown tool ${name}` }, true)
+  }
+}
+
+function createMcpServer(): Server {
+  const server = new Server({ name: 'mock-express', version: '1.0.0' }, { capabilities: { tools: {} } })
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    // Every tool only reads, so approval mode can run them without asking
+    tools: TOOLS.map(tool => ({ ...tool, annotations: { readOnlyHint: true } })),
+  }))
+  server.setRequestHandler(CallToolRequestSchema, async request =>
+    callTool(request.params.name, request.params.arguments ?? {})
+  )
+  return server
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  // Stateless: a fresh server and transport for every request
+  const server = createMcpServer()
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined })
+  res.on('close', () => {
+    transport.close().catch(() => {})
+    server.close().catch(() => {})
+  })
+  await server.connect(transport)
+  await transport.handleRequest(req, res)
+}
+
+export interface MockMcpServer {
+  url: string
+  close(): Promise<void>
+}
+
+/**
+ * Start the mock server on a free localhost port
+ */
+export async function startMockMcpServer(): Promise<MockMcpServer> {
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      if (!res.headersSent) res.writeHead(500).end(error instanceof Error ? error.message : 'Mock server error')
+    })
+  })
+
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+  const { port } = httpServer.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    close: () => new Promise(resolve => {
+      httpServer.closeAllConnections()
+      httpServer.close(() => resolve())
+    }),
+  }
+}
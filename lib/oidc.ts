@@ -0,0 +1,166 @@
+import { type SessionUser, toBase64Url } from './auth'
+
+/**
+ * OpenID Connect login with the authorization code flow and PKCE.
+ *
+ * - OIDC_ISSUER: issuer URL, used for discovery
+ * - OIDC_CLIENT_ID / OIDC_CLIENT_SECRET: client credentials (secret optional for public clients)
+ * - OIDC_SCOPES: defaults to `openid email profile`
+ * - OIDC_REDIRECT_URI: defaults to `<origin>/api/auth/callback`
+ */
+
+export interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string
+  redirectUri?: string
+}
+
+interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+}
+
+/**
+ * Values kept in a signed cookie between the redirect and the callback
+ */
+export interface OidcLoginState {
+  state: string
+  nonce: string
+  codeVerifier: string
+  next: string
+  exp: number
+}
+
+export const OIDC_STATE_COOKIE = 'playground_oidc'
+const LOGIN_STATE_TTL_SECONDS = 10 * 60
+
+export function getOidcConfig(): OidcConfig {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, OIDC_SCOPES, OIDC_REDIRECT_URI } = process.env
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID) {
+    throw new Error('OIDC_ISSUER and OIDC_CLIENT_ID must be set when AUTH_MODE is "oidc"')
+  }
+  return {
+    issuer: OIDC_ISSUER.replace(/\/$/, ''),
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: OIDC_CLIENT_SECRET || undefined,
+    scopes: OIDC_SCOPES || 'openid email profile',
+    redirectUri: OIDC_REDIRECT_URI || undefined,
+  }
+}
+
+let metadataCache: { issuer: string; metadata: Promise<OidcMetadata> } | null = null
+
+async function fetchMetadata(issuer: string): Promise<OidcMetadata> {
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`)
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with ${response.status}`)
+  }
+  return response.json()
+}
+
+function discover(issuer: string): Promise<OidcMetadata> {
+  if (metadataCache?.issuer !== issuer) {
+    const metadata = fetchMetadata(issuer)
+    // Retry discovery on the next login if it failed
+    metadata.catch(() => { metadataCache = null })
+    metadataCache = { issuer, metadata }
+  }
+  return metadataCache.metadata
+}
+
+function randomToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  return toBase64Url(new Uint8Array(digest))
+}
+
+/**
+ * Build the provider's authorization URL and the state to verify on callback
+ */
+export async function createOidcLogin(
+  config: OidcConfig,
+  redirectUri: string,
+  next: string
+): Promise<{ url: string; loginState: OidcLoginState }> {
+  const metadata = await discover(config.issuer)
+  const loginState: OidcLoginState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    next,
+    exp: Math.floor(Date.now() / 1000) + LOGIN_STATE_TTL_SECONDS,
+  }
+
+  const url = new URL(metadata.authorization_endpoint)
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes,
+    state: loginState.state,
+    nonce: loginState.nonce,
+    code_challenge: await codeChallenge(loginState.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString()
+
+  return { url: url.toString(), loginState }
+}
+
+function decodeJwtPayload(token: string): Record<string, unknown> {
+  const payload = token.split('.')[1]
+  if (!payload) throw new Error('Malformed ID token')
+  const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(json, char => char.charCodeAt(0))))
+}
+
+/**
+ * Exchange the authorization code and read the user from the ID token.
+ * The token comes straight from the token endpoint over TLS, so its claims
+ * are checked but its signature is not (OIDC Core 3.1.3.7).
+ */
+export async function completeOidcLogin(
+  config: OidcConfig,
+  redirectUri: string,
+  code: string,
+  loginState: OidcLoginState
+): Promise<SessionUser> {
+  const metadata = await discover(config.issuer)
+  const response = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      code_verifier: loginState.codeVerifier,
+      ...(config.clientSecret && { client_secret: config.clientSecret }),
+    }),
+  })
+  if (!response.ok) {
+    throw new Error(`OIDC token exchange failed with ${response.status}`)
+  }
+
+  const { id_token } = await response.json()
+  if (typeof id_token !== 'string') throw new Error('OIDC provider returned no ID token')
+
+  const claims = decodeJwtPayload(id_token)
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (claims.iss !== metadata.issuer) throw new Error('ID token issuer does not match')
+  if (!audience.includes(config.clientId)) throw new Error('ID token audience does not match')
+  if (typeof claims.exp !== 'number' || claims.exp < Date.now() / 1000) throw new Error('ID token has expired')
+  if (claims.nonce !== loginState.nonce) throw new Error('ID token nonce does not match')
+  if (typeof claims.sub !== 'string') throw new Error('ID token has no subject')
+
+  return {
+    id: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+  }
+}
@@ -0,0 +1,53 @@
+import type { TurnUsage } from './types'
+
+/**
+ * Prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number
+  output: number
+  cacheWrite: number
+  cacheRead: number
+}
+
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-opus-4-20250514': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+}
+
+/**
+ * Price table, optionally overridden per model with NEXT_PUBLIC_MODEL_PRICING,
+ * e.g. {"claude-sonnet-4-20250514":{"input":3,"output":15,"cacheWrite":3.75,"cacheRead":0.3}}
+ */
+function loadModelPricing(): Record<string, ModelPricing> {
+  const override = process.env.NEXT_PUBLIC_MODEL_PRICING
+  if (!override) return DEFAULT_MODEL_PRICING
+  try {
+    return { ...DEFAULT_MODEL_PRICING, ...JSON.parse(override) }
+  } catch {
+    console.warn('Ignoring invalid NEXT_PUBLIC_MODEL_PRICING')
+    return DEFAULT_MODEL_PRICING
+  }
+}
+
+export const MODEL_PRICING = loadModelPricing()
+
+/**
+ * Estimated cost of a turn in USD, or undefined if the model has no price
+ */
+export function estimateCost(usage: TurnUsage): number | undefined {
+  const pricing = MODEL_PRICING[usage.model]
+  if (!pricing) return undefined
+  return (
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheCreationInputTokens * pricing.cacheWrite +
+    usage.cacheReadInputTokens * pricing.cacheRead
+  ) / 1_000_000
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
@@ -0,0 +1,131 @@
+import type { NextRequest } from 'next/server'
+
+/**
+ * Token bucket state for one client
+ */
+export interface TokenBucket {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Storage for token buckets. Swap the in-memory store for a shared one
+ * (e.g. Redis) when running more than one server instance.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucket | undefined>
+  set(key: string, bucket: TokenBucket): Promise<void>
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // Whole seconds until a token is available, when not allowed
+  retryAfter: number
+}
+
+export interface RateLimiter {
+  consume(key: string): Promise<RateLimitResult>
+}
+
+/**
+ * Keeps buckets in a Map, evicting the oldest entries past `maxKeys`
+ */
+export function createMemoryRateLimitStore(maxKeys = 10_000): RateLimitStore {
+  const buckets = new Map<string, TokenBucket>()
+  return {
+    async get(key) {
+      return buckets.get(key)
+    },
+    async set(key, bucket) {
+      // Re-insert so iteration order tracks recency
+      buckets.delete(key)
+      buckets.set(key, bucket)
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value!)
+      }
+    },
+  }
+}
+
+/**
+ * Each key holds up to `capacity` tokens, refilled at `refillPerMinute`.
+ * Every request takes one token.
+ */
+export function createRateLimiter({ capacity, refillPerMinute, store }: {
+  capacity: number
+  refillPerMinute: number
+  store: RateLimitStore
+}): RateLimiter {
+  const refillPerMs = refillPerMinute / 60_000
+
+  return {
+    async consume(key) {
+      const now = Date.now()
+      const bucket = await store.get(key)
+      const tokens = bucket
+        ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+        : capacity
+
+      if (tokens < 1) {
+        await store.set(key, { tokens, updatedAt: now })
+        return { allowed: false, remaining: 0, retryAfter: Math.ceil((1 - tokens) / refillPerMs / 1000) }
+      }
+
+      await store.set(key, { tokens: tokens - 1, updatedAt: now })
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfter: 0 }
+    },
+  }
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Chat requests per client IP: a burst of RATE_LIMIT_BURST (default 10),
+ * then RATE_LIMIT_PER_MINUTE (default 10)
+ */
+export const chatRateLimiter: RateLimiter = createRateLimiter({
+  capacity: readPositiveNumber(process.env.RATE_LIMIT_BURST, 10),
+  refillPerMinute: readPositiveNumber(process.env.RATE_LIMIT_PER_MINUTE, 10),
+  store: createMemoryRateLimitStore(),
+})
+
+/**
+ * Passcode login attempts per client IP: 5, then 5 per minute
+ */
+export const loginRateLimiter: RateLimiter = createRateLimiter({
+  capacity: 5,
+  refillPerMinute: 5,
+  store: createMemoryRateLimitStore(),
+})
+
+/**
+ * Share links per client IP: 10, then 1 per minute. Each one is written to
+ * disk, so this applies even when the playground is open.
+ */
+export const shareRateLimiter: RateLimiter = createRateLimiter({
+  capacity: 10,
+  refillPerMinute: 1,
+  store: createMemoryRateLimitStore(),
+})
+
+// Proxies in front of the app that append to X-Forwarded-For, such as a
+// load balancer or the hosting platform's edge
+const TRUSTED_PROXY_COUNT = Math.floor(readPositiveNumber(process.env.TRUSTED_PROXY_COUNT, 1))
+
+/**
+ * Best-effort client IP from proxy headers. Each proxy appends the address
+ * it saw to X-Forwarded-For and the client can send any entries before
+ * those, so the entry added by the outermost trusted proxy is used.
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  const trusted = forwardedFor[Math.max(0, forwardedFor.length - TRUSTED_PROXY_COUNT)]
+  return trusted || request.headers.get('x-real-ip') || 'unknown'
+}
@@ -0,0 +1,24 @@
+/**
+ * Read a request body as text, or return undefined if it is larger than
+ * `maxBytes`. A Content-Length over the limit is rejected without reading,
+ * and a body without one stops being read as soon as it passes the limit.
+ */
+export async function readBodyText(request: Request, maxBytes: number): Promise<string | undefined> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return undefined
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return undefined
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
@@ -0,0 +1,61 @@
+export interface RetryAttempt {
+  // The attempt about to run, starting at 2
+  attempt: number
+  maxAttempts: number
+  delayMs: number
+  error: unknown
+}
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  maxRetries: number
+  // Milliseconds to wait before retrying after `error`, or undefined to give up
+  retryDelay: (error: unknown, retry: number) => number | undefined
+  onRetry?: (attempt: RetryAttempt) => void
+  signal?: AbortSignal
+}
+
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 16_000
+
+/**
+ * Exponential backoff with jitter: about 1s, 2s, 4s… capped at 16s
+ */
+export function backoffDelay(retry: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (retry - 1))
+  return Math.round(delay * (0.75 + Math.random() * 0.5))
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Run `fn`, retrying failures that `retryDelay` accepts.
+ * Aborting `signal` stops immediately, including during a wait.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, { maxRetries, retryDelay, onRetry, signal }: RetryOptions): Promise<T> {
+  for (let retry = 1; ; retry++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (signal?.aborted || retry > maxRetries) throw error
+      const delayMs = retryDelay(error, retry)
+      if (delayMs === undefined) throw error
+
+      onRetry?.({ attempt: retry + 1, maxAttempts: maxRetries + 1, delayMs, error })
+      await sleep(delayMs, signal)
+    }
+  }
+}
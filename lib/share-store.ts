@@ -0,0 +1,80 @@
+import { randomBytes } from 'node:crypto'
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { type Transcript, validateTranscript } from './transcript'
+
+/**
+ * Storage for shared transcripts
+ */
+export interface ShareStore {
+  get(id: string): Promise<Transcript | undefined>
+  put(transcript: Transcript): Promise<string>
+}
+
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/
+
+const DEFAULT_MAX_STORAGE_MB = 500
+
+/**
+ * Thrown by `put` when storing the transcript would pass the storage cap
+ */
+export class ShareStorageFullError extends Error {
+  constructor() {
+    super('Share storage is full')
+    this.name = 'ShareStorageFullError'
+  }
+}
+
+export function isValidShareId(id: string): boolean {
+  return SHARE_ID_PATTERN.test(id)
+}
+
+async function directorySize(directory: string): Promise<number> {
+  let files: string[]
+  try {
+    files = await readdir(directory)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0
+    throw error
+  }
+  const sizes = await Promise.all(files.map(async file => (await stat(path.join(directory, file))).size))
+  return sizes.reduce((sum, size) => sum + size, 0)
+}
+
+/**
+ * Stores each transcript as a JSON file, up to `maxBytes` in total.
+ * The directory defaults to `.data/shares` and can be set with SHARE_STORAGE_DIR.
+ */
+export function createFileShareStore(directory: string, maxBytes = Infinity): ShareStore {
+  return {
+    async get(id) {
+      if (!isValidShareId(id)) return undefined
+      try {
+        const contents = await readFile(path.join(directory, `${id}.json`), 'utf8')
+        // Shares stored before transcripts were fully validated may be malformed
+        const validation = validateTranscript(JSON.parse(contents))
+        return validation.ok ? validation.transcript : undefined
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+        throw error
+      }
+    },
+    async put(transcript) {
+      const contents = JSON.stringify(transcript)
+      if ((await directorySize(directory)) + Buffer.byteLength(contents) > maxBytes) {
+        throw new ShareStorageFullError()
+      }
+      const id = randomBytes(16).toString('base64url')
+      await mkdir(directory, { recursive: true })
+      await writeFile(path.join(directory, `${id}.json`), contents, 'utf8')
+      return id
+    },
+  }
+}
+
+const maxStorageMb = Number(process.env.SHARE_STORAGE_MAX_MB)
+
+export const shareStore: ShareStore = createFileShareStore(
+  process.env.SHARE_STORAGE_DIR || path.join(process.cwd(), '.data', 'shares'),
+  (Number.isFinite(maxStorageMb) && maxStorageMb > 0 ? maxStorageMb : DEFAULT_MAX_STORAGE_MB) * 1024 * 1024
+)
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { createEventStreamParser, type EventStreamMessage } from './sse'
+
+function parse(chunks: string[], { end = true } = {}): EventStreamMessage[] {
+  const messages: EventStreamMessage[] = []
+  const parser = createEventStreamParser(message => messages.push(message))
+  for (const chunk of chunks) parser.feed(chunk)
+  if (end) parser.end()
+  return messages
+}
+
+// Every way of cutting `stream` in two
+function splits(stream: string): string[][] {
+  return Array.from({ length: stream.length + 1 }, (_, index) => [stream.slice(0, index), stream.slice(index)])
+}
+
+describe('createEventStreamParser', () => {
+  it('parses events terminated by a blank line', () => {
+    expect(parse(['data: one\n\ndata: two\n\n'])).toEqual([
+      { event: 'message', data: 'one', id: undefined },
+      { event: 'message', data: 'two', id: undefined },
+    ])
+  })
+
+  it('accepts \\n, \\r and \\r\\n line endings', () => {
+    for (const newline of ['\n', '\r', '\r\n']) {
+      expect(parse([`data: one${newline}${newline}data: two${newline}${newline}`]).map(message => message.data))
+        .toEqual(['one', 'two'])
+    }
+  })
+
+  it('treats a \\r\\n pair split across chunks as one line ending', () => {
+    expect(parse(['data: one\r', '\n\r', '\ndata: two\r', '\n\r\n']).map(message => message.data))
+      .toEqual(['one', 'two'])
+  })
+
+  it('gives the same events wherever a chunk boundary falls', () => {
+    const stream = 'event: update\r\nid: 7\r\ndata: first\r\ndata: second\r\n\r\n: ping\r\ndata: {"a":1}\r\n\r\n'
+    const expected = parse([stream])
+    expect(expected).toHaveLength(2)
+    for (const chunks of splits(stream)) {
+      expect(parse(chunks)).toEqual(expected)
+    }
+  })
+
+  it('gives the same events when fed one character at a time', () => {
+    const stream = 'data: a\r\n\r\ndata: b\r\rdata: c\n\n'
+    expect(parse([...stream])).toEqual(parse([stream]))
+  })
+
+  it('joins multi-line data with \\n', () => {
+    expect(parse(['data: line 1\ndata: line 2\ndata:\ndata:  indented\n\n'])).toEqual([
+      { event: 'message', data: 'line 1\nline 2\n\n indented', id: undefined },
+    ])
+  })
+
+  it('ignores comments, including between the lines of an event', () => {
+    expect(parse([': keepalive\n\ndata: one\n: note\ndata: two\n\n'])).toEqual([
+      { event: 'message', data: 'one\ntwo', id: undefined },
+    ])
+  })
+
+  it('does not dispatch events without data', () => {
+    expect(parse(['event: ping\n\nid: 1\n\n'])).toEqual([])
+  })
+
+  it('uses the event type for one event only', () => {
+    expect(parse(['event: custom\ndata: one\n\ndata: two\n\n']).map(message => message.event))
+      .toEqual(['custom', 'message'])
+  })
+
+  it('keeps the last event id for later events', () => {
+    expect(parse(['id: 1\ndata: one\n\ndata: two\n\nid\ndata: three\n\n']).map(message => message.id))
+      .toEqual(['1', '1', ''])
+  })
+
+  it('ignores ids containing NUL', () => {
+    expect(parse(['id: 1\ndata: one\n\nid: 2\0\ndata: two\n\n']).map(message => message.id))
+      .toEqual(['1', '1'])
+  })
+
+  it('ignores retry and unknown fields', () => {
+    expect(parse(['retry: 1000\nfoo: bar\ndata: one\n\n'])).toEqual([
+      { event: 'message', data: 'one', id: undefined },
+    ])
+  })
+
+  it('discards an unterminated last event', () => {
+    expect(parse(['data: one\n\ndata: two']).map(message => message.data)).toEqual(['one'])
+    expect(parse(['data: one\n\ndata: two\n']).map(message => message.data)).toEqual(['one'])
+  })
+
+  it('starts fresh after end()', () => {
+    const messages: EventStreamMessage[] = []
+    const parser = createEventStreamParser(message => messages.push(message))
+    parser.feed('event: custom\ndata: partial\r')
+    parser.end()
+    parser.feed('\ndata: next\n\n')
+    expect(messages).toEqual([{ event: 'message', data: 'next', id: undefined }])
+  })
+})
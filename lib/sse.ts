@@ -0,0 +1,99 @@
+/**
+ * Incremental parser for the `text/event-stream` format
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+
+export interface EventStreamMessage {
+  event: string
+  data: string
+  id?: string
+}
+
+export interface EventStreamParser {
+  // Feed the next decoded chunk; may contain any fragment of a line
+  feed(chunk: string): void
+  // Signal end of stream; an unterminated event is discarded, as in the spec
+  end(): void
+}
+
+export function createEventStreamParser(
+  onMessage: (message: EventStreamMessage) => void
+): EventStreamParser {
+  let buffer = ''
+  let dataLines: string[] = []
+  let eventType = ''
+  let lastEventId: string | undefined
+  // A chunk ended in '\r'; drop a '\n' at the start of the next one
+  let pendingCarriageReturn = false
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onMessage({ event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId })
+    }
+    dataLines = []
+    eventType = ''
+  }
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch()
+      return
+    }
+    // Comment
+    if (line.startsWith(':')) return
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value)
+        break
+      case 'event':
+        eventType = value
+        break
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value
+        break
+      default:
+        // `retry` and unknown fields are ignored
+        break
+    }
+  }
+
+  return {
+    feed(chunk) {
+      if (!chunk) return
+      if (pendingCarriageReturn && chunk.startsWith('\n')) {
+        chunk = chunk.slice(1)
+      }
+      pendingCarriageReturn = false
+      buffer += chunk
+
+      let lineStart = 0
+      for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i]
+        if (char !== '\n' && char !== '\r') continue
+
+        processLine(buffer.slice(lineStart, i))
+        if (char === '\r') {
+          if (i + 1 === buffer.length) {
+            pendingCarriageReturn = true
+          } else if (buffer[i + 1] === '\n') {
+            i++
+          }
+        }
+        lineStart = i + 1
+      }
+      buffer = buffer.slice(lineStart)
+    },
+    end() {
+      buffer = ''
+      dataLines = []
+      eventType = ''
+      pendingCarriageReturn = false
+    },
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { type ChatStreamEvent, encodeStreamEvent, readChatStream } from './stream-events'
+
+function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk)
+      controller.close()
+    },
+  })
+}
+
+async function readAll(chunks: Uint8Array[]): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = []
+  for await (const event of readChatStream(streamOf(chunks))) events.push(event)
+  return events
+}
+
+const EVENTS: ChatStreamEvent[] = [
+  { type: 'text', content: 'Grüße 👋 — 你好' },
+  { type: 'tool_start', name: 'search', id: 'toolu_1' },
+  { type: 'text', content: 'line 1\nline 2' },
+  { type: 'done' },
+]
+
+const BYTES = new TextEncoder().encode(EVENTS.map(encodeStreamEvent).join(''))
+
+describe('readChatStream', () => {
+  it('reads events encoded by encodeStreamEvent', async () => {
+    expect(await readAll([BYTES])).toEqual(EVENTS)
+  })
+
+  it('reassembles events and multibyte characters split at any byte', async () => {
+    for (let index = 0; index <= BYTES.length; index++) {
+      expect(await readAll([BYTES.slice(0, index), BYTES.slice(index)])).toEqual(EVENTS)
+    }
+  })
+
+  it('reassembles a stream delivered one byte at a time', async () => {
+    expect(await readAll(Array.from(BYTES, byte => Uint8Array.of(byte)))).toEqual(EVENTS)
+  })
+
+  it('skips comments and ignores an unterminated last event', async () => {
+    const stream = `: keepalive\n\n${encodeStreamEvent({ type: 'done' })}data: {"type":"text"`
+    expect(await readAll([new TextEncoder().encode(stream)])).toEqual([{ type: 'done' }])
+  })
+
+  it('accepts \\r\\n line endings', async () => {
+    const stream = 'data: {"type":"text","content":"hi"}\r\n\r\ndata: {"type":"done"}\r\n\r\n'
+    expect(await readAll([new TextEncoder().encode(stream)])).toEqual([
+      { type: 'text', content: 'hi' },
+      { type: 'done' },
+    ])
+  })
+
+  it('throws on an event that is not JSON', async () => {
+    await expect(readAll([new TextEncoder().encode('data: not json\n\n')])).rejects.toThrow('Malformed stream event')
+  })
+})
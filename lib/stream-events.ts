@@ -0,0 +1,65 @@
+import type { ChatErrorKind } from './chat-errors'
+import { createEventStreamParser, type EventStreamMessage } from './sse'
+import type { ContentBlock, ContextCompaction, ContextUsage, ToolResultContent, TurnTimings, TurnUsage } from './types'
+
+/**
+ * Events sent by the chat route over SSE
+ */
+export type ChatStreamEvent =
+  | { type: 'text'; content: string }
+  | { type: 'thinking'; content: string }
+  | { type: 'tool_start'; name: string; id: string; server?: string }
+  | { type: 'tool_complete'; name: string; id: string; server?: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; is_error: boolean; content: ToolResultContent[] }
+  | { type: 'tool_approval_required'; request_id: string; tool_use_id: string; input: Record<string, unknown> }
+  | { type: 'tool_decision'; tool_use_id: string; approved: boolean; input?: Record<string, unknown>; reason?: string }
+  | { type: 'message'; content: ContentBlock[] }
+  | { type: 'usage'; usage: TurnUsage; stop_reason: string | null; timings?: TurnTimings }
+  | { type: 'retrying'; attempt: number; max_attempts: number; delay_ms: number; kind: ChatErrorKind; message: string }
+  | { type: 'fallback'; reason: string }
+  | { type: 'context'; context: ContextUsage }
+  | { type: 'context_compacted'; compaction: ContextCompaction }
+  | { type: 'done' }
+  | { type: 'error'; error: string; kind?: ChatErrorKind }
+
+/**
+ * Serialize an event as an SSE frame
+ */
+export function encodeStreamEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Read chat events from a response body.
+ * Frames split across network chunks (or multibyte characters split across
+ * reads) are reassembled before parsing.
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const pending: EventStreamMessage[] = []
+  const parser = createEventStreamParser(message => pending.push(message))
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      parser.feed(done ? decoder.decode() : decoder.decode(value, { stream: true }))
+
+      while (pending.length > 0) {
+        const message = pending.shift()!
+        let event: ChatStreamEvent
+        try {
+          event = JSON.parse(message.data)
+        } catch {
+          throw new Error(`Malformed stream event: ${message.data.slice(0, 100)}`)
+        }
+        yield event
+      }
+
+      if (done) break
+    }
+  } finally {
+    parser.end()
+    reader.releaseLock()
+  }
+}
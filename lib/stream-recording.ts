@@ -0,0 +1,61 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import type { MessageStreamClient } from './chat-turn'
+
+/**
+ * Anthropic streams saved to disk so scenarios can be replayed without the API
+ */
+export interface StreamRecording {
+  // Written by hand, or captured from the API with `npm run evals -- --record`
+  source: 'hand-written' | 'recorded'
+  recordedAt?: string
+  note?: string
+  // Events of each model call, in the order the calls were made
+  responses: Anthropic.MessageStreamEvent[][]
+}
+
+/**
+ * Client that answers each model call with the next recorded response
+ */
+export function createReplayClient(recording: StreamRecording): MessageStreamClient {
+  let next = 0
+  return {
+    messages: {
+      async *stream(_params, options) {
+        const events = recording.responses[next]
+        if (!events) {
+          throw new Error(`The recording has no response for model call ${next + 1}; record the scenario again`)
+        }
+        next++
+        for (const event of events) {
+          if (options?.signal?.aborted) throw new Error('Request was aborted')
+          yield event
+        }
+      },
+    },
+  }
+}
+
+/**
+ * Wrap a real client and keep every event it streams
+ */
+export function createRecordingClient(client: MessageStreamClient): {
+  client: MessageStreamClient
+  recording: () => StreamRecording
+} {
+  const responses: Anthropic.MessageStreamEvent[][] = []
+  return {
+    client: {
+      messages: {
+        async *stream(params, options) {
+          const events: Anthropic.MessageStreamEvent[] = []
+          responses.push(events)
+          for await (const event of client.messages.stream(params, options)) {
+            events.push(event)
+            yield event
+          }
+        },
+      },
+    },
+    recording: () => ({ source: 'recorded', recordedAt: new Date().toISOString(), responses }),
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Pending human decisions on tool calls in approval mode.
+ * Decisions are held in memory, so the chat route and the approvals route
+ * must run in the same server process.
+ */
+
+export type ToolDecision =
+  | { action: 'approve'; input?: Record<string, unknown> }
+  | { action: 'deny'; reason?: string }
+
+// Deny automatically if nobody answers in time
+export const APPROVAL_TIMEOUT_MS = 4 * 60 * 1000
+
+const pendingDecisions = new Map<string, (decision: ToolDecision) => void>()
+
+function decisionKey(requestId: string, toolUseId: string): string {
+  return `${requestId}:${toolUseId}`
+}
+
+/**
+ * Wait for the user to approve or deny a tool call.
+ * Rejects if the chat request is aborted.
+ */
+export function waitForToolDecision(
+  requestId: string,
+  toolUseId: string,
+  signal: AbortSignal,
+  timeoutMs = APPROVAL_TIMEOUT_MS
+): Promise<ToolDecision> {
+  return new Promise((resolve, reject) => {
+    const key = decisionKey(requestId, toolUseId)
+
+    const cleanup = () => {
+      pendingDecisions.delete(key)
+      clearTimeout(timer)
+      signal.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(new Error('Request aborted while waiting for tool approval'))
+    }
+    const timer = setTimeout(() => {
+      cleanup()
+      resolve({ action: 'deny', reason: 'no decision was made in time' })
+    }, timeoutMs)
+
+    if (signal.aborted) {
+      onAbort()
+      return
+    }
+    signal.addEventListener('abort', onAbort)
+    pendingDecisions.set(key, decision => {
+      cleanup()
+      resolve(decision)
+    })
+  })
+}
+
+/**
+ * Deliver a decision to a waiting chat request.
+ * Returns false if no such tool call is waiting.
+ */
+export function resolveToolDecision(requestId: string, toolUseId: string, decision: ToolDecision): boolean {
+  const resolve = pendingDecisions.get(decisionKey(requestId, toolUseId))
+  if (!resolve) return false
+  resolve(decision)
+  return true
+}
@@ -0,0 +1,307 @@
+import { formatBytes } from './attachments'
+import { getModelOption, validateChatSettings } from './chat-settings'
+import { DEFAULT_CONVERSATION_TITLE } from './conversation-store'
+import { getActiveMessages, treeFromMessages } from './message-tree'
+import { estimateCost, formatCost } from './pricing'
+import type {
+  ContextCompaction,
+  ContextUsage,
+  Conversation,
+  Message,
+  MessageAttachment,
+  ToolCall,
+  ToolResultContent,
+  TurnTimings,
+  TurnUsage,
+} from './types'
+
+export const TRANSCRIPT_FORMAT = 'express-mcp-playground/transcript'
+export const TRANSCRIPT_VERSION = 1
+
+/**
+ * Portable JSON export of a conversation.
+ * Only the active branch is exported.
+ */
+export interface Transcript {
+  format: typeof TRANSCRIPT_FORMAT
+  version: number
+  exportedAt: number
+  conversation: Omit<Conversation, 'id' | 'tree'> & { messages: Message[] }
+}
+
+export function toTranscript(conversation: Conversation): Transcript {
+  const { id: _id, tree, ...rest } = conversation
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: Date.now(),
+    conversation: { ...rest, messages: getActiveMessages(tree) },
+  }
+}
+
+export type TranscriptValidation =
+  | { ok: true; transcript: Transcript }
+  | { ok: false; error: string }
+
+type Fields = Record<string, unknown>
+
+function isFields(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value)
+
+const TOOL_CALL_STATUSES: unknown[] = ['running', 'complete', 'error', 'awaiting_approval', 'denied']
+
+function isToolResultContent(value: unknown): value is ToolResultContent {
+  if (!isFields(value)) return false
+  return value.type === 'text'
+    ? isString(value.text)
+    : value.type === 'image' && isString(value.data) && isString(value.mimeType)
+}
+
+function isToolCall(value: unknown): value is ToolCall {
+  if (!isFields(value)) return false
+  const { name, id, server, input, status, result, error, approvalRequestId } = value
+  return (
+    isString(name) &&
+    TOOL_CALL_STATUSES.includes(status) &&
+    isOptional(id, isString) &&
+    isOptional(server, isString) &&
+    isOptional(input, isFields) &&
+    isOptional(result, item => Array.isArray(item) && item.every(isToolResultContent)) &&
+    isOptional(error, isString) &&
+    isOptional(approvalRequestId, isString)
+  )
+}
+
+function isAttachment(value: unknown): value is MessageAttachment {
+  if (!isFields(value)) return false
+  const { id, kind, name, mediaType, data, size } = value
+  return (kind === 'image' || kind === 'document') &&
+    isString(id) && isString(name) && isString(mediaType) && isString(data) && isCount(size)
+}
+
+function isTurnUsage(value: unknown): value is TurnUsage {
+  if (!isFields(value)) return false
+  const { model, inputTokens, outputTokens, cacheCreationInputTokens, cacheReadInputTokens, user } = value
+  return isString(model) && isCount(inputTokens) && isCount(outputTokens) &&
+    isCount(cacheCreationInputTokens) && isCount(cacheReadInputTokens) && isOptional(user, isString)
+}
+
+function isTurnTimings(value: unknown): value is TurnTimings {
+  if (!isFields(value)) return false
+  const { firstTokenMs, totalMs, toolCalls } = value
+  return isOptional(firstTokenMs, isDuration) && isDuration(totalMs) && Array.isArray(toolCalls) &&
+    toolCalls.every(call => isFields(call) && isString(call.id) && isString(call.name) &&
+      isOptional(call.server, isString) && isDuration(call.durationMs) && typeof call.isError === 'boolean')
+}
+
+function isContextUsage(value: unknown): value is ContextUsage {
+  return isFields(value) && isCount(value.tokens) && isCount(value.contextWindow) && typeof value.estimated === 'boolean'
+}
+
+// Same rules as the chat route: indexes point at or before the reply, and
+// what is kept starts with a user message
+function isCompaction(value: unknown, previous: Message[]): value is ContextCompaction {
+  if (!isFields(value)) return false
+  const { clearedToolResultsBefore, clearedToolResults, droppedBefore, summary, tokensBefore, tokensAfter } = value
+  return (
+    isCount(clearedToolResultsBefore) && clearedToolResultsBefore <= previous.length &&
+    isOptional(clearedToolResults, isCount) &&
+    isCount(droppedBefore) && droppedBefore <= previous.length &&
+    (droppedBefore === 0 || previous[droppedBefore]?.role === 'user') &&
+    isOptional(summary, isString) &&
+    isCount(tokensBefore) &&
+    isCount(tokensAfter)
+  )
+}
+
+function isRetrying(value: unknown): value is Message['retrying'] {
+  return isFields(value) && isCount(value.attempt) && isCount(value.maxAttempts) && isString(value.message)
+}
+
+// Optional message fields and their checks; malformed ones are dropped
+// rather than failing the import, since the page renders them unchecked.
+// Lists keep their well-formed items.
+const MESSAGE_FIELDS: Record<Exclude<keyof Message, 'role' | 'content' | 'compaction'>, (value: unknown) => unknown> = {
+  attachments: value => Array.isArray(value) ? value.filter(isAttachment) : undefined,
+  thinking: value => isString(value) ? value : undefined,
+  toolCalls: value => Array.isArray(value) ? value.filter(isToolCall) : undefined,
+  blocks: value => Array.isArray(value) ? value.filter(block => isFields(block) && isString(block.type)) : undefined,
+  stopped: value => typeof value === 'boolean' ? value : undefined,
+  usage: value => isTurnUsage(value) ? value : undefined,
+  stopReason: value => isString(value) ? value : undefined,
+  timings: value => isTurnTimings(value) ? value : undefined,
+  error: value => isString(value) ? value : undefined,
+  errorKind: value => isString(value) ? value : undefined,
+  retrying: value => isRetrying(value) ? value : undefined,
+  fallbackReason: value => isString(value) ? value : undefined,
+  requestId: value => isString(value) ? value : undefined,
+  context: value => isContextUsage(value) ? value : undefined,
+  createdAt: value => isDuration(value) ? value : undefined,
+}
+
+/**
+ * Rebuild a message from its well-formed fields, or undefined if its role or
+ * content is missing. `previous` are the messages before it, which its
+ * compaction may point into.
+ */
+function toMessage(value: unknown, previous: Message[]): Message | undefined {
+  if (!isFields(value)) return undefined
+  const { role, content, compaction } = value
+  if ((role !== 'user' && role !== 'assistant') || !isString(content)) return undefined
+
+  const message: Message = { role, content }
+  for (const [field, check] of Object.entries(MESSAGE_FIELDS)) {
+    const checked = value[field] === undefined ? undefined : check(value[field])
+    if (checked !== undefined) Object.assign(message, { [field]: checked })
+  }
+  if (isCompaction(compaction, previous)) {
+    message.compaction = compaction
+  }
+  return message
+}
+
+/**
+ * Validate a transcript parsed from an uploaded or shared JSON file
+ */
+export function validateTranscript(value: unknown): TranscriptValidation {
+  if (!value || typeof value !== 'object') {
+    return { ok: false, error: 'Transcript must be a JSON object' }
+  }
+
+  const { format, version, exportedAt, conversation } = value as Record<string, unknown>
+  if (format !== TRANSCRIPT_FORMAT) {
+    return { ok: false, error: 'Not an Express MCP Playground transcript' }
+  }
+  if (version !== TRANSCRIPT_VERSION) {
+    return { ok: false, error: `Unsupported transcript version ${String(version)}` }
+  }
+  if (!conversation || typeof conversation !== 'object') {
+    return { ok: false, error: 'Transcript has no conversation' }
+  }
+
+  const { title, createdAt, updatedAt, messages, settings } = conversation as Record<string, unknown>
+  if (!Array.isArray(messages)) {
+    return { ok: false, error: 'Transcript messages are malformed' }
+  }
+  const checkedMessages: Message[] = []
+  for (const value of messages) {
+    const message = toMessage(value, checkedMessages)
+    if (!message) return { ok: false, error: 'Transcript messages are malformed' }
+    checkedMessages.push(message)
+  }
+
+  const now = Date.now()
+  const settingsValidation = validateChatSettings(settings)
+
+  return {
+    ok: true,
+    transcript: {
+      format: TRANSCRIPT_FORMAT,
+      version: TRANSCRIPT_VERSION,
+      exportedAt: typeof exportedAt === 'number' ? exportedAt : now,
+      conversation: {
+        title: typeof title === 'string' && title.trim() ? title.trim() : DEFAULT_CONVERSATION_TITLE,
+        createdAt: typeof createdAt === 'number' ? createdAt : now,
+        updatedAt: typeof updatedAt === 'number' ? updatedAt : now,
+        messages: checkedMessages,
+        settings: settingsValidation.ok ? settingsValidation.settings : undefined,
+      },
+    },
+  }
+}
+
+/**
+ * Rebuild a conversation from a transcript under a fresh id
+ */
+export function conversationFromTranscript(transcript: Transcript): Conversation {
+  const { messages, ...rest } = transcript.conversation
+  return { ...rest, id: crypto.randomUUID(), tree: treeFromMessages(messages) }
+}
+
+function formatTimestamp(timestamp: number | undefined): string {
+  return timestamp ? new Date(timestamp).toISOString() : ''
+}
+
+function fencedJson(value: unknown): string {
+  return ['```json', JSON.stringify(value, null, 2), '```'].join('\n')
+}
+
+function toolCallToMarkdown(tool: ToolCall): string {
+  const lines = [`#### 🔧 ${tool.name}${tool.server ? ` (${tool.server})` : ''} — ${tool.status}`]
+  if (tool.input) {
+    lines.push('', 'Input:', '', fencedJson(tool.input))
+  }
+  if (tool.result) {
+    lines.push('', tool.status === 'error' ? 'Error:' : 'Result:', '')
+    for (const block of tool.result) {
+      lines.push(block.type === 'text' ? ['```', block.text, '```'].join('\n') : `_[image: ${block.mimeType}]_`)
+    }
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Human-readable Markdown export, suitable for bug reports
+ */
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const { conversation } = transcript
+  const sections: string[] = [`# ${conversation.title}`]
+
+  const details = [`Exported ${formatTimestamp(transcript.exportedAt)}`]
+  if (conversation.settings) {
+    const { model, maxTokens, temperature, thinking, thinkingBudget } = conversation.settings
+    details.push(
+      `Model: ${getModelOption(model)?.label ?? model}`,
+      `Max tokens: ${maxTokens}`,
+      thinking ? `Extended thinking: ${thinkingBudget} tokens` : `Temperature: ${temperature}`
+    )
+  }
+  sections.push(details.map(detail => `- ${detail}`).join('\n'))
+
+  if (conversation.settings?.systemPrompt) {
+    sections.push(['<details><summary>System prompt</summary>', '', conversation.settings.systemPrompt, '', '</details>'].join('\n'))
+  }
+
+  for (const message of conversation.messages) {
+    const heading = `## ${message.role === 'user' ? '🧑 User' : '🤖 Assistant'}${message.createdAt ? ` — ${formatTimestamp(message.createdAt)}` : ''}`
+    const parts = [heading]
+
+    if (message.compaction) {
+      parts.push(`_Context compacted: ${message.compaction.tokensBefore} → ${message.compaction.tokensAfter} tokens._`)
+      if (message.compaction.summary) {
+        parts.push(['<details><summary>Summary of earlier turns</summary>', '', message.compaction.summary, '', '</details>'].join('\n'))
+      }
+    }
+    if (message.thinking) {
+      parts.push(['<details><summary>Reasoning</summary>', '', message.thinking, '', '</details>'].join('\n'))
+    }
+    for (const tool of message.toolCalls ?? []) {
+      parts.push(toolCallToMarkdown(tool))
+    }
+    if (message.attachments?.length) {
+      parts.push(message.attachments.map(attachment => `- 📎 ${attachment.name} (${formatBytes(attachment.size)})`).join('\n'))
+    }
+    if (message.fallbackReason) parts.push(`_Answered without MCP tools. ${message.fallbackReason}_`)
+    if (message.content) parts.push(message.content)
+    if (message.stopped) parts.push('_Stopped by the user._')
+    if (message.error) parts.push(`**Error:** ${message.error}${message.requestId ? ` (request ${message.requestId})` : ''}`)
+    if (message.usage) {
+      const cost = estimateCost(message.usage)
+      parts.push(
+        `_${message.usage.inputTokens} input / ${message.usage.outputTokens} output tokens` +
+        `${cost !== undefined ? ` · ~${formatCost(cost)}` : ''}` +
+        `${message.stopReason ? ` · stop reason: ${message.stopReason}` : ''}_`
+      )
+    }
+    sections.push(parts.join('\n\n'))
+  }
+
+  return `${sections.join('\n\n')}\n`
+}
@@ -0,0 +1,50 @@
+import type { ChatStreamEvent } from './stream-events'
+import type { TurnTimings } from './types'
+
+export interface TurnTimer {
+  // Record the timing of an event as it is sent to the client
+  observe(event: ChatStreamEvent): void
+  finish(): TurnTimings
+}
+
+/**
+ * Measure one chat turn from the events it produces: time to the first
+ * streamed output, each tool call, and the total.
+ * Time spent waiting for the user to approve a call is not counted against it.
+ */
+export function createTurnTimer(startedAt = performance.now()): TurnTimer {
+  const elapsed = () => Math.round(performance.now() - startedAt)
+  let firstTokenMs: number | undefined
+  const toolStarts = new Map<string, { name: string; server?: string; startedAt: number }>()
+  const toolCalls: TurnTimings['toolCalls'] = []
+
+  return {
+    observe(event) {
+      if (firstTokenMs === undefined && (event.type === 'text' || event.type === 'thinking' || event.type === 'tool_start')) {
+        firstTokenMs = elapsed()
+      }
+
+      if (event.type === 'tool_start') {
+        toolStarts.set(event.id, { name: event.name, server: event.server, startedAt: performance.now() })
+      } else if (event.type === 'tool_decision') {
+        const start = toolStarts.get(event.tool_use_id)
+        if (start && event.approved) start.startedAt = performance.now()
+      } else if (event.type === 'tool_result') {
+        const start = toolStarts.get(event.tool_use_id)
+        if (start) {
+          toolCalls.push({
+            id: event.tool_use_id,
+            name: start.name,
+            server: start.server,
+            durationMs: Math.round(performance.now() - start.startedAt),
+            isError: event.is_error,
+          })
+          toolStarts.delete(event.tool_use_id)
+        }
+      }
+    },
+    finish() {
+      return { firstTokenMs, totalMs: elapsed(), toolCalls }
+    },
+  }
+}
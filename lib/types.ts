@@ -0,0 +1,136 @@
+import type { ChatErrorKind } from './chat-errors'
+import type { ChatSettings } from './chat-settings'
+import type { MessageTree } from './message-tree'
+
+/**
+ * Chat types shared by the page, its components and the conversation store
+ */
+
+export type ToolResultContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+
+export interface ToolCall {
+  name: string
+  id?: string
+  server?: string
+  input?: Record<string, unknown>
+  status: 'running' | 'complete' | 'error' | 'awaiting_approval' | 'denied'
+  result?: ToolResultContent[]
+  error?: string
+  // Chat request waiting on this call, in approval mode
+  approvalRequestId?: string
+}
+
+/**
+ * Raw content block as returned by the Messages API (`text`, `mcp_tool_use`,
+ * `mcp_tool_result`, ...). Assistant messages keep these so later turns can
+ * replay them to Claude verbatim.
+ */
+export interface ContentBlock {
+  type: string
+  [key: string]: unknown
+}
+
+/**
+ * Token usage of a single assistant turn
+ */
+export interface TurnUsage {
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+  // Signed-in user the turn was billed to, when auth is enabled
+  user?: string
+}
+
+/**
+ * Timing spans of a single assistant turn, measured by the chat route
+ */
+export interface TurnTimings {
+  // Until the first text, reasoning or tool call was streamed
+  firstTokenMs?: number
+  totalMs: number
+  toolCalls: { id: string; name: string; server?: string; durationMs: number; isError: boolean }[]
+}
+
+/**
+ * How full the context window was when a turn was sent
+ */
+export interface ContextUsage {
+  tokens: number
+  contextWindow: number
+  // Counted locally because the token counting endpoint was unavailable
+  estimated: boolean
+}
+
+/**
+ * Older parts of the conversation left out of requests to save context.
+ * Stored on the reply of the turn that compacted, and applied to every
+ * later request on the same branch. Indexes count from the first message.
+ */
+export interface ContextCompaction {
+  // Tool results in earlier messages are replaced by a short placeholder
+  clearedToolResultsBefore: number
+  // Tool results this compaction cleared; missing on older compactions
+  clearedToolResults?: number
+  // Earlier messages are replaced by `summary`, or dropped when there is none
+  droppedBefore: number
+  summary?: string
+  tokensBefore: number
+  tokensAfter: number
+}
+
+/**
+ * A file attached to a user message, kept base64-encoded with the message
+ */
+export interface MessageAttachment {
+  id: string
+  kind: 'image' | 'document'
+  name: string
+  mediaType: string
+  data: string
+  // Decoded size in bytes
+  size: number
+}
+
+export interface Message {
+  role: 'user' | 'assistant'
+  content: string
+  // Images and PDFs sent with a user message
+  attachments?: MessageAttachment[]
+  // Extended thinking streamed before the answer
+  thinking?: string
+  toolCalls?: ToolCall[]
+  blocks?: ContentBlock[]
+  // Generation was cancelled by the user before it finished
+  stopped?: boolean
+  usage?: TurnUsage
+  stopReason?: string
+  timings?: TurnTimings
+  // The turn failed; any partial output above is kept
+  error?: string
+  errorKind?: ChatErrorKind
+  // Shown while the route waits to retry a failed request
+  retrying?: { attempt: number; maxAttempts: number; message: string }
+  // Answered without MCP tools because no server could be reached
+  fallbackReason?: string
+  // Chat request that produced a failed turn, for support
+  requestId?: string
+  context?: ContextUsage
+  // Set on the reply of the turn where the context was compacted
+  compaction?: ContextCompaction
+  createdAt?: number
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  // Every branch of the conversation; the visible one is its active path
+  tree: MessageTree
+  // Missing on conversations saved before settings existed
+  settings?: ChatSettings
+}
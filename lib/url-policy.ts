@@ -0,0 +1,120 @@
+import { lookup } from 'node:dns/promises'
+import { isIP } from 'node:net'
+
+/**
+ * Which MCP URLs the server may use.
+ *
+ * MCP_URL_ALLOWLIST holds comma-separated host patterns (`mcp.example.com`,
+ * `*.example.com`). When it is set, only matching hosts are accepted.
+ * Private, loopback and link-local addresses are always rejected, including
+ * hostnames that resolve to them, unless MCP_ALLOW_PRIVATE_URLS=true
+ * (useful for local MCP servers during development).
+ */
+
+export type UrlPolicyResult = { ok: true } | { ok: false; error: string }
+
+const BLOCKED_HOST_SUFFIXES = ['localhost', '.localhost', '.local', '.internal']
+
+function parseAllowlist(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(pattern => pattern.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function matchesHostPattern(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    const suffix = pattern.slice(1)
+    return host.endsWith(suffix) && host.length > suffix.length
+  }
+  return host === pattern
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  )
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase()
+  // IPv4-mapped addresses, which URL parsing rewrites to hex (::ffff:c0a8:101)
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateIPv4(mapped[1])
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)]
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized) ||
+    normalized.startsWith('ff')
+  )
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) return isPrivateIPv4(address)
+  if (version === 6) return isPrivateIPv6(address)
+  return false
+}
+
+/**
+ * Check an MCP server URL against the allowlist and the private address rules
+ */
+export async function checkMcpUrl(value: string): Promise<UrlPolicyResult> {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return { ok: false, error: 'MCP URL is not a valid URL' }
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '')
+
+  const allowlist = parseAllowlist(process.env.MCP_URL_ALLOWLIST)
+  if (allowlist.length > 0 && !allowlist.some(pattern => matchesHostPattern(host, pattern))) {
+    return { ok: false, error: `MCP host ${host} is not in the allowlist` }
+  }
+
+  if (process.env.MCP_ALLOW_PRIVATE_URLS === 'true') return { ok: true }
+
+  if (BLOCKED_HOST_SUFFIXES.some(suffix => host === suffix || host.endsWith(suffix))) {
+    return { ok: false, error: `MCP host ${host} is a private host` }
+  }
+  if (isIP(host)) {
+    return isPrivateAddress(host)
+      ? { ok: false, error: `MCP host ${host} is a private address` }
+      : { ok: true }
+  }
+
+  // Resolve the name so that public hostnames pointing at private addresses are caught too
+  try {
+    const addresses = await lookup(host, { all: true })
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return { ok: false, error: `MCP host ${host} resolves to a private address` }
+    }
+  } catch {
+    return { ok: false, error: `MCP host ${host} could not be resolved` }
+  }
+  return { ok: true }
+}
+
+/**
+ * Check several URLs, returning the first rejection
+ */
+export async function checkMcpUrls(urls: string[]): Promise<UrlPolicyResult> {
+  const results = await Promise.all(urls.map(checkMcpUrl))
+  return results.find(result => !result.ok) ?? { ok: true }
+}
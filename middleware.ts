@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { apiError } from '@/lib/api-errors'
+import { encodeUserHeader, getAuthConfig, SESSION_COOKIE, USER_HEADER, verifySessionToken } from '@/lib/auth'
+
+/**
+ * Require a signed session on the playground and its chat API when AUTH_MODE is set.
+ * The signed-in user is passed to route handlers in a request header.
+ */
+export async function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers)
+  // Only the middleware may set the user header
+  headers.delete(USER_HEADER)
+
+  const config = getAuthConfig()
+  if (!config) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const user = await verifySessionToken(config.secret, request.cookies.get(SESSION_COOKIE)?.value)
+  if (!user) {
+    if (request.nextUrl.pathname.startsWith('/api/')) {
+      return apiError('unauthorized', 'Sign in to use the playground', 401)
+    }
+    const loginUrl = new URL('/login', request.url)
+    loginUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  headers.set(USER_HEADER, encodeUserHeader(user))
+  return NextResponse.next({ request: { headers } })
+}
+
+export const config = {
+  matcher: ['/', '/evals', '/api/express-mcp/:path*', '/api/share'],
+}
@@ -0,0 +1,71 @@
+import { runScenarios, type ScenarioResult } from '@/lib/eval-runner'
+
+/**
+ * Run the scenarios in evals/scenarios and print a pass/fail table.
+ *
+ *   npm run evals                 replay every scenario
+ *   npm run evals -- order        only scenarios whose id contains "order"
+ *   npm run evals -- --record     call the API and save new recordings
+ */
+
+function formatRow(cells: string[], widths: number[]): string {
+  return cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd()
+}
+
+function printTable(results: ScenarioResult[]) {
+  const rows = results.map(result => [
+    result.id,
+    result.passed ? 'PASS' : 'FAIL',
+    String(result.turns.reduce((count, turn) => count + turn.toolCalls.length, 0)),
+    `${result.durationMs}ms`,
+  ])
+  const header = ['Scenario', 'Result', 'Tool calls', 'Time']
+  const widths = header.map((cell, index) => Math.max(cell.length, ...rows.map(row => row[index].length)))
+
+  console.log(formatRow(header, widths))
+  console.log(widths.map(width => '-'.repeat(width)).join('  '))
+  for (const row of rows) console.log(formatRow(row, widths))
+}
+
+function printFailures(results: ScenarioResult[]) {
+  for (const result of results.filter(result => !result.passed)) {
+    console.log(`\n${result.id}: ${result.name}`)
+    for (const failure of result.failures) console.log(`  - ${failure}`)
+    for (const [index, turn] of result.turns.entries()) {
+      for (const failure of turn.failures) console.log(`  - Turn ${index + 1}: ${failure}`)
+    }
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const record = args.includes('--record')
+  const filter = args.find(arg => !arg.startsWith('--'))
+
+  // Keep the table readable; set LOG_LEVEL to see the turn logs
+  process.env.LOG_LEVEL ??= 'error'
+
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  if (record && !apiKey) {
+    console.error('Recording needs ANTHROPIC_API_KEY')
+    process.exit(1)
+  }
+
+  const results = await runScenarios({ filter, record: record && apiKey ? { apiKey } : undefined })
+  if (results.length === 0) {
+    console.error(filter ? `No scenarios match "${filter}"` : 'No scenarios found in evals/scenarios')
+    process.exit(1)
+  }
+
+  printTable(results)
+  printFailures(results)
+
+  const failed = results.filter(result => !result.passed).length
+  console.log(`\n${results.length - failed} passed, ${failed} failed`)
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})